@@ -0,0 +1,344 @@
+/**
+ * Uniplex MCP Server - Approval Tests
+ *
+ * Tests for pending approvals, one-time approval tokens and the
+ * SUSPEND → approve → replay flow.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ElicitRequestSchema, ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { ApprovalManager, hashToolInput } from '../approval.js';
+import { Ed25519Signer, bytesToHex, signJws, verifyAttestation } from '../signing.js';
+import { UniplexMCPServer } from '../server.js';
+import { ToolExecutionResult } from '../tools/wrapper.js';
+import { GateDenyReason, CachedCatalog, UniplexMCPServerConfig } from '../types.js';
+
+// =========================================================================
+// TEST FIXTURES
+// =========================================================================
+
+const binding = {
+  passport_id: 'passport_1',
+  tool: 'book_flight',
+  permission_key: 'flights:book',
+  input: { flight_id: 'UA1', price: '900.00' },
+};
+
+function createManager(ttl_minutes = 15): ApprovalManager {
+  return new ApprovalManager('gate_test', Ed25519Signer.generate('gate_test#key-1'), { ttl_minutes });
+}
+
+async function approvedToken(manager: ApprovalManager): Promise<string> {
+  const approval = await manager.create({ permissions: ['flights:book'], ...binding });
+  const approved = await manager.approve(approval.approval_id, { approver: 'alice' });
+  return (await manager.issueToken(approved))!;
+}
+
+// =========================================================================
+// APPROVAL MANAGER TESTS
+// =========================================================================
+
+describe('ApprovalManager', () => {
+  let manager: ApprovalManager;
+
+  beforeEach(() => {
+    manager = createManager();
+  });
+
+  it('creates pending approvals bound to the call input', async () => {
+    const approval = await manager.create({ permissions: ['flights:book'], ...binding });
+
+    expect(approval.status).toBe('pending');
+    expect(approval.input_hash).toBe(hashToolInput({ price: '900.00', flight_id: 'UA1' }));
+    expect(await manager.listPending()).toHaveLength(1);
+    expect(await manager.issueToken(approval)).toBeUndefined();
+  });
+
+  it('notifies the on_pending hook', async () => {
+    const onPending = vi.fn();
+    const hooked = new ApprovalManager('gate_test', Ed25519Signer.generate('k'), { on_pending: onPending });
+
+    const approval = await hooked.create({ permissions: ['flights:book'] });
+
+    expect(onPending).toHaveBeenCalledWith(approval);
+  });
+
+  it('accepts a token replayed with the same call', async () => {
+    const token = await approvedToken(manager);
+    const check = await manager.check(token, binding);
+
+    expect(check.valid).toBe(true);
+  });
+
+  it('rejects a token replayed with different input', async () => {
+    const token = await approvedToken(manager);
+    const check = await manager.check(token, { ...binding, input: { flight_id: 'UA1', price: '9000.00' } });
+
+    expect(check).toEqual({ valid: false, reason: 'Approval was granted for a different call' });
+  });
+
+  it('rejects a token replayed by another passport', async () => {
+    const token = await approvedToken(manager);
+    const check = await manager.check(token, { ...binding, passport_id: 'passport_2' });
+
+    expect(check.valid).toBe(false);
+  });
+
+  it('rejects tokens signed by another key', async () => {
+    const approval = await manager.create({ permissions: ['flights:book'], ...binding });
+    await manager.approve(approval.approval_id);
+    const forged = await signJws(
+      JSON.stringify({ typ: 'uniplex-approval', approval_id: approval.approval_id }),
+      Ed25519Signer.generate('gate_test#key-1')
+    );
+
+    expect((await manager.check(forged, binding)).valid).toBe(false);
+  });
+
+  it('tokens do not verify as attestation signatures', async () => {
+    const signer = Ed25519Signer.generate('gate_test#key-1');
+    const manager = new ApprovalManager('gate_test', signer);
+    const approval = await manager.create({ permissions: ['flights:book'], ...binding });
+    const token = (await manager.issueToken(await manager.approve(approval.approval_id)))!;
+    const forged = JSON.stringify({ attestation_id: 'att_forged', result: 'allowed' });
+
+    expect(verifyAttestation({ attestation_json: forged, signature: token }, bytesToHex(await signer.getPublicKey())))
+      .toEqual({ valid: false, error: 'Invalid signature' });
+  });
+
+  it('consumes approvals once', async () => {
+    const token = await approvedToken(manager);
+    const check = await manager.check(token, binding);
+    if (!check.valid) throw new Error(check.reason);
+
+    expect(await manager.consume(check.approval.approval_id)).toBe(true);
+    expect(await manager.consume(check.approval.approval_id)).toBe(false);
+    expect(await manager.check(token, binding)).toEqual({ valid: false, reason: 'Approval is consumed' });
+  });
+
+  it('lets one of two concurrent consumes win', async () => {
+    const approval = await manager.create({ permissions: ['flights:book'], ...binding });
+    await manager.approve(approval.approval_id);
+
+    const results = await Promise.all([manager.consume(approval.approval_id), manager.consume(approval.approval_id)]);
+
+    expect(results.sort()).toEqual([false, true]);
+  });
+
+  it('does not issue tokens for denied approvals', async () => {
+    const approval = await manager.create({ permissions: ['flights:book'], ...binding });
+    const denied = await manager.deny(approval.approval_id, { reason: 'Too expensive' });
+
+    expect(denied.status).toBe('denied');
+    expect(await manager.issueToken(denied)).toBeUndefined();
+    await expect(manager.approve(approval.approval_id)).rejects.toThrow('denied');
+  });
+
+  it('expires approvals after the TTL', async () => {
+    const expiring = createManager(0);
+    const approval = await expiring.create({ permissions: ['flights:book'], ...binding });
+
+    expect((await expiring.get(approval.approval_id))?.status).toBe('expired');
+    await expect(expiring.approve(approval.approval_id)).rejects.toThrow('expired');
+    expect(await expiring.cleanupExpired()).toBe(1);
+  });
+
+  it('covers any call of an approved permission when not bound to a tool', async () => {
+    const approval = await manager.create({ permissions: ['flights:book'], passport_id: 'passport_1' });
+    const token = (await manager.issueToken(await manager.approve(approval.approval_id)))!;
+
+    expect((await manager.check(token, binding)).valid).toBe(true);
+    expect((await manager.check(token, { ...binding, permission_key: 'flights:cancel' })).valid).toBe(false);
+  });
+});
+
+// =========================================================================
+// SERVER APPROVAL FLOW TESTS
+// =========================================================================
+
+const handler = vi.fn(async () => ({ confirmation: 'ABC123' }));
+
+async function createServer(overrides: Partial<UniplexMCPServerConfig> = {}): Promise<UniplexMCPServer> {
+  const server = new UniplexMCPServer({
+    uniplex_api_url: 'https://mock.uniplex.dev',
+    gate_id: 'gate_test',
+    signing_key: { private_key: '11'.repeat(32) },
+    safe_default: { enabled: false, auto_issue: false, permissions: [], constraints: {}, max_lifetime: 'PT1H' },
+    trusted_issuers: [],
+    tools: [{
+      name: 'book_flight',
+      permission_key: 'flights:book',
+      inputSchema: { type: 'object' },
+      handler,
+    }],
+    test_mode: { enabled: true },
+    ...overrides,
+  });
+
+  const permissions = {
+    'flights:book': {
+      permission_key: 'flights:book',
+      display_name: 'Book Flights',
+      risk_level: 'high' as const,
+      constraints: { 'core:approval:required': true },
+    },
+  };
+  const catalog: CachedCatalog = {
+    gate_id: 'gate_test',
+    current: { version: 1, permissionsByKey: permissions, published_at: new Date().toISOString() },
+    versions: {},
+    min_compatible_version: 1,
+    cached_at: Date.now(),
+    permissionsByKey: permissions,
+  };
+  server.setTestCatalog(catalog);
+
+  return server;
+}
+
+describe('SUSPEND approval flow', () => {
+  let server: UniplexMCPServer;
+
+  beforeEach(async () => {
+    handler.mockClear();
+    server = await createServer();
+    await server.setTestSession({ sessionId: 'test', permissions: ['flights:book'] });
+  });
+
+  it('suspends, then runs the call once after approval', async () => {
+    const args = { flight_id: 'UA1' };
+
+    const suspended = await server.callTool({ name: 'book_flight', arguments: args });
+    const approvalId = suspended._meta?.uniplex_approval?.approval_id;
+
+    expect(suspended.isError).toBe(true);
+    expect(approvalId).toBeDefined();
+    expect(handler).not.toHaveBeenCalled();
+
+    await server.approvals.approve(approvalId!, { approver: 'alice' });
+    const status = await server.handleApprovalStatus({ params: { approval_id: approvalId }, meta: { sessionId: 'test' } });
+
+    expect(status.status).toBe('approved');
+
+    const replay = { name: 'book_flight', arguments: args, _meta: { uniplex_approval_token: status.approval_token } };
+    const allowed = await server.callTool(replay);
+
+    expect(allowed.isError).toBe(false);
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    const reused = await server.callTool(replay);
+
+    expect(reused.isError).toBe(true);
+    expect(reused._meta?.uniplex_denial?.code).toBe(GateDenyReason.APPROVAL_INVALID);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects an approval token replayed with different arguments', async () => {
+    const suspended = await server.callTool({ name: 'book_flight', arguments: { flight_id: 'UA1' } });
+    const approvalId = suspended._meta!.uniplex_approval!.approval_id;
+    await server.approvals.approve(approvalId);
+    const { approval_token } = await server.handleApprovalStatus({ params: { approval_id: approvalId }, meta: { sessionId: 'test' } });
+
+    const result = await server.callTool({
+      name: 'book_flight',
+      arguments: { flight_id: 'UA999' },
+      _meta: { uniplex_approval_token: approval_token },
+    });
+
+    expect(result._meta?.uniplex_denial?.code).toBe(GateDenyReason.APPROVAL_INVALID);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('returns the token only to the session or passport that asked', async () => {
+    const suspended = await server.callTool({ name: 'book_flight', arguments: { flight_id: 'UA1' } });
+    const approvalId = suspended._meta!.uniplex_approval!.approval_id;
+    await server.approvals.approve(approvalId);
+    await server.setTestSession({ sessionId: 'other', permissions: ['flights:book'] });
+    await server.setTestSession({ sessionId: 'reconnected', passportId: 'passport_test_test', permissions: ['flights:book'] });
+
+    const other = await server.handleApprovalStatus({ params: { approval_id: approvalId }, meta: { sessionId: 'other' } });
+    const reconnected = await server.handleApprovalStatus({
+      params: { approval_id: approvalId },
+      meta: { sessionId: 'reconnected' },
+    });
+
+    expect(other.status).toBe('approved');
+    expect(other.approval_token).toBeUndefined();
+    expect(reconnected.approval_token).toBeDefined();
+  });
+});
+
+// =========================================================================
+// IN-BAND (ELICITATION) APPROVAL TESTS
+// =========================================================================
+
+describe('in-band approval via MCP elicitation', () => {
+  let server: UniplexMCPServer;
+  let client: Client;
+  let elicit: ReturnType<typeof vi.fn<[unknown], ElicitResult>>;
+  let consoleError: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    handler.mockClear();
+    consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    server = await createServer({
+      approval: { elicitation: true },
+      audit: { enabled: true, log_inputs: false, log_outputs: false },
+    });
+    await server.setTestSession({ sessionId: 'default', permissions: ['flights:book'] });
+
+    elicit = vi.fn();
+    client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: { elicitation: {} } });
+    client.setRequestHandler(ElicitRequestSchema, async (request) => elicit(request.params));
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connectTestTransport(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    consoleError.mockRestore();
+  });
+
+  it('runs the call in the same request once the user accepts', async () => {
+    elicit.mockReturnValue({ action: 'accept', content: { approve: true } });
+
+    const result = await client.callTool({ name: 'book_flight', arguments: { flight_id: 'UA1' } });
+    const attestation = (result._meta as ToolExecutionResult['_meta'])!.uniplex_attestation!;
+    const approval = JSON.parse(attestation.attestation_json).approval;
+
+    expect(result.isError).toBe(false);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect((elicit.mock.calls[0][0] as { message: string }).message).toContain('book_flight');
+    expect(approval).toMatchObject({ method: 'elicitation', decided_by: 'test-client' });
+    expect(JSON.parse(attestation.attestation_json).catalog_content_hash).toMatch(/^[0-9a-f]{64}$/);
+    expect((await server.approvals.get(approval.approval_id))?.status).toBe('consumed');
+    expect(verifyAttestation(attestation, await server.getJwks()).valid).toBe(true);
+  });
+
+  it('denies the call when the user declines', async () => {
+    elicit.mockReturnValue({ action: 'decline' });
+
+    const result = await client.callTool({ name: 'book_flight', arguments: { flight_id: 'UA1' } });
+
+    expect(result.isError).toBe(true);
+    expect((result._meta as ToolExecutionResult['_meta'])?.uniplex_approval).toBeUndefined();
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('falls back to an out-of-band approval when the client cannot elicit', async () => {
+    const plain = new Client({ name: 'plain-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connectTestTransport(serverTransport);
+    await plain.connect(clientTransport);
+
+    const result = await plain.callTool({ name: 'book_flight', arguments: { flight_id: 'UA1' } });
+
+    expect(result.isError).toBe(true);
+    expect((result._meta as ToolExecutionResult['_meta'])?.uniplex_approval?.status).toBe('pending');
+    expect(elicit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,561 @@
+/**
+ * Uniplex MCP Server - Cache Tests
+ *
+ * Tests for cached verification data maintained by CacheManager.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CacheManager, computeCatalogContentHash } from '../cache.js';
+import { bytesToHex, DEFAULT_SIGNING_KEY_ENV, Ed25519Signer, signDetachedJws } from '../signing.js';
+import { UniplexMCPServer } from '../server.js';
+import { CacheConfig, CachedCatalog, IssuerJwk, IssuerKeyset, UniplexMCPServerConfig } from '../types.js';
+
+// =========================================================================
+// TEST FIXTURES
+// =========================================================================
+
+function createConfig(overrides: Partial<UniplexMCPServerConfig> = {}): UniplexMCPServerConfig {
+  return {
+    uniplex_api_url: 'https://mock.uniplex.dev',
+    gate_id: 'gate_test',
+    safe_default: {
+      enabled: false,
+      auto_issue: false,
+      permissions: [],
+      constraints: {},
+      max_lifetime: 'PT1H',
+    },
+    trusted_issuers: [],
+    tools: [],
+    ...overrides,
+  };
+}
+
+// =========================================================================
+// ISSUER TRUST TESTS
+// =========================================================================
+
+describe('CacheManager issuer trust', () => {
+  it('trusts configured issuers at their configured level', () => {
+    const cache = new CacheManager(createConfig({
+      trusted_issuers: ['issuer_a', 'issuer_b'],
+      issuer_trust_levels: { 'issuer_b': 3 },
+    }));
+
+    expect(cache.issuerTrust).toEqual({ 'issuer_a': 0, 'issuer_b': 3 });
+  });
+
+  it('does not trust issuers just because their key is cached', () => {
+    const cache = new CacheManager(createConfig());
+    cache.updateIssuerKeys({ 'issuer_a': '0'.repeat(64) });
+
+    expect(cache.issuerTrust['issuer_a']).toBeUndefined();
+  });
+
+  it('adds trust network members', () => {
+    const cache = new CacheManager(createConfig({ trust_networks: ['net_travel'] }));
+    cache.updateTrustNetworkMembers('net_travel', [
+      { issuer_id: 'issuer_a', trust_level: 2 },
+      { issuer_id: 'issuer_b' },
+    ]);
+
+    expect(cache.issuerTrust).toEqual({ 'issuer_a': 2, 'issuer_b': 0 });
+  });
+
+  it('uses the highest level across config and networks', () => {
+    const cache = new CacheManager(createConfig({
+      trusted_issuers: ['issuer_a'],
+      issuer_trust_levels: { 'issuer_a': 1 },
+    }));
+    cache.updateTrustNetworkMembers('net_1', [{ issuer_id: 'issuer_a', trust_level: 3 }]);
+    cache.updateTrustNetworkMembers('net_2', [{ issuer_id: 'issuer_a', trust_level: 2 }]);
+
+    expect(cache.issuerTrust['issuer_a']).toBe(3);
+  });
+
+  it('drops issuers removed from a network on refresh', () => {
+    const cache = new CacheManager(createConfig());
+    cache.updateTrustNetworkMembers('net_1', [{ issuer_id: 'issuer_a', trust_level: 1 }]);
+    cache.updateTrustNetworkMembers('net_1', []);
+
+    expect(cache.issuerTrust['issuer_a']).toBeUndefined();
+  });
+});
+
+// =========================================================================
+// ISSUER KEY ROTATION TESTS
+// =========================================================================
+
+describe('CacheManager issuer key rotation', () => {
+  const jwk = (x: string, extra: Partial<IssuerJwk> = {}): IssuerJwk => ({ kty: 'OKP', crv: 'Ed25519', x, kid: x, ...extra });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps keys dropped from the feed as retiring for the overlap window', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const cache = new CacheManager(createConfig({
+      cache: { catalog_max_age_minutes: 5, revocation_max_age_minutes: 1, fail_mode: 'fail_open', issuer_key_overlap_minutes: 60 },
+    }));
+    cache.updateIssuerKeys({ 'issuer_a': { keys: [jwk('key_old')] } });
+
+    cache.updateIssuerKeys({ 'issuer_a': { keys: [jwk('key_new')] } });
+
+    expect(cache.issuerKeys['issuer_a']).toEqual({
+      keys: [
+        jwk('key_new'),
+        jwk('key_old', { status: 'retiring', not_after: new Date(Date.now() + 60 * 60 * 1000).toISOString() }),
+      ],
+    });
+
+    vi.setSystemTime(Date.now() + 61 * 60 * 1000);
+    cache.updateIssuerKeys({ 'issuer_a': { keys: [jwk('key_new')] } });
+
+    expect(cache.issuerKeys['issuer_a']).toEqual({ keys: [jwk('key_new')] });
+  });
+
+  it('keeps a replaced single key', () => {
+    const cache = new CacheManager(createConfig());
+    cache.updateIssuerKeys({ 'issuer_a': '00'.repeat(32) });
+
+    cache.updateIssuerKeys({ 'issuer_a': '11'.repeat(32) });
+
+    const keys = (cache.issuerKeys['issuer_a'] as IssuerKeyset).keys;
+    expect(keys).toHaveLength(2);
+    expect(keys[1]).toMatchObject({ x: 'A'.repeat(43), status: 'retiring' });
+  });
+
+  it('drops revoked keys immediately', () => {
+    const cache = new CacheManager(createConfig());
+    cache.updateIssuerKeys({ 'issuer_a': { keys: [jwk('key_old'), jwk('key_new')] } });
+
+    cache.updateIssuerKeys({ 'issuer_a': { keys: [jwk('key_old', { status: 'revoked' }), jwk('key_new')] } });
+    cache.updateIssuerKeys({ 'issuer_a': { keys: [jwk('key_new')] } });
+
+    expect(cache.issuerKeys['issuer_a']).toEqual({ keys: [jwk('key_new')] });
+  });
+});
+
+// =========================================================================
+// FRESHNESS TESTS
+// =========================================================================
+
+describe('CacheManager freshness', () => {
+  const cacheConfig = {
+    catalog_max_age_minutes: 5,
+    revocation_max_age_minutes: 1,
+    fail_mode: 'fail_open' as const,
+    fail_mode_overrides: {
+      'payments:send': { fail_mode: 'fail_closed' as const, revocation_max_age_minutes: 1 },
+    },
+  };
+
+  it('treats a never-loaded revocation list as stale', () => {
+    const cache = new CacheManager(createConfig({ cache: cacheConfig }));
+
+    expect(cache.getFreshness('flights:search')).toEqual({
+      catalogFresh: false,
+      revocationFresh: false,
+      failMode: 'fail_open',
+    });
+  });
+
+  it('applies per-action fail mode overrides', () => {
+    const cache = new CacheManager(createConfig({ cache: cacheConfig }));
+    cache.updateRevocationList([]);
+
+    expect(cache.getFreshness('payments:send')).toMatchObject({
+      revocationFresh: true,
+      failMode: 'fail_closed',
+    });
+  });
+});
+
+// =========================================================================
+// SNAPSHOT TESTS
+// =========================================================================
+
+describe('CacheManager snapshots', () => {
+  const signer = Ed25519Signer.generate('gate_test#key-1');
+  let dir: string;
+  let cache: CacheConfig;
+
+  const catalog: CachedCatalog = {
+    gate_id: 'gate_test',
+    current: {
+      version: 7,
+      permissionsByKey: {
+        'flights:book': { permission_key: 'flights:book', display_name: 'Book Flights', risk_level: 'high', constraints: {} },
+      },
+      published_at: new Date().toISOString(),
+    },
+    versions: {},
+    min_compatible_version: 1,
+    cached_at: Date.now(),
+    permissionsByKey: {},
+  };
+
+  function populate(manager: CacheManager): void {
+    manager.updateCatalog(catalog);
+    manager.updateRevocationList(['passport_revoked']);
+    manager.updateIssuerKeys({ 'issuer_a': '0'.repeat(64) });
+    manager.updateTrustNetworkMembers('net_travel', [{ issuer_id: 'issuer_a', trust_level: 2 }]);
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'uniplex-cache-'));
+    cache = {
+      catalog_max_age_minutes: 5,
+      revocation_max_age_minutes: 1,
+      fail_mode: 'fail_open',
+      snapshot: { path: join(dir, 'snapshot.json'), max_age_minutes: 60 },
+    };
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('restores catalog, revocations, keys and trust from a snapshot', async () => {
+    const saved = new CacheManager(createConfig({ cache }), signer);
+    populate(saved);
+    await saved.saveSnapshot();
+
+    const restored = new CacheManager(createConfig({ cache }), signer);
+
+    expect(await restored.loadSnapshot()).toBe(true);
+    expect(restored.getCatalogVersion()).toBe(7);
+    expect(restored.catalog?.permissionsByKey['flights:book']).toBeDefined();
+    expect(restored.revocationList.has('passport_revoked')).toBe(true);
+    expect(restored.issuerKeys).toEqual({ 'issuer_a': '0'.repeat(64) });
+    expect(restored.issuerTrust['issuer_a']).toBe(2);
+  });
+
+  it('starts from the snapshot when the API is unreachable', async () => {
+    const saved = new CacheManager(createConfig({ cache }), signer);
+    populate(saved);
+    await saved.saveSnapshot();
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new Error('ECONNREFUSED'); }));
+
+    const restarted = new CacheManager(createConfig({ cache }), signer);
+    await restarted.startBackgroundRefresh();
+    restarted.stopBackgroundRefresh();
+
+    expect(restarted.getCatalogVersion()).toBe(7);
+  });
+
+  it('keeps the original fetch times of restored data', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const saved = new CacheManager(createConfig({ cache }), signer);
+    populate(saved);
+    await saved.saveSnapshot();
+
+    vi.setSystemTime(Date.now() + 2 * 60 * 1000);
+    const restored = new CacheManager(createConfig({ cache }), signer);
+    await restored.loadSnapshot();
+
+    expect(restored.getFreshness()).toMatchObject({ catalogFresh: true, revocationFresh: false });
+  });
+
+  it('ignores snapshots older than max_age_minutes', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const saved = new CacheManager(createConfig({ cache }), signer);
+    populate(saved);
+    await saved.saveSnapshot();
+
+    vi.setSystemTime(Date.now() + 61 * 60 * 1000);
+    const restored = new CacheManager(createConfig({ cache }), signer);
+
+    expect(await restored.loadSnapshot()).toBe(false);
+    expect(restored.catalog).toBeNull();
+  });
+
+  it('ignores snapshots signed by another key', async () => {
+    const saved = new CacheManager(createConfig({ cache }), Ed25519Signer.generate('gate_test#key-1'));
+    populate(saved);
+    await saved.saveSnapshot();
+
+    const restored = new CacheManager(createConfig({ cache }), signer);
+
+    expect(await restored.loadSnapshot()).toBe(false);
+  });
+
+  it('ignores tampered snapshots', async () => {
+    const saved = new CacheManager(createConfig({ cache }), signer);
+    populate(saved);
+    await saved.saveSnapshot();
+
+    const file = JSON.parse(await readFile(cache.snapshot!.path, 'utf8'));
+    file.snapshot_json = file.snapshot_json.replace('passport_revoked', 'passport_other');
+    await writeFile(cache.snapshot!.path, JSON.stringify(file));
+    const restored = new CacheManager(createConfig({ cache }), signer);
+
+    expect(await restored.loadSnapshot()).toBe(false);
+    expect(restored.revocationList.size).toBe(0);
+  });
+
+  it('does not write a snapshot before a catalog is loaded', async () => {
+    const empty = new CacheManager(createConfig({ cache }), signer);
+    await empty.saveSnapshot();
+
+    await expect(readFile(cache.snapshot!.path, 'utf8')).rejects.toThrow();
+  });
+
+  it('restores the snapshot when the gate restarts with the same key', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new Error('offline'); }));
+    const config = createConfig({ cache, signing_key: { private_key: '22'.repeat(32) } });
+    const first = new UniplexMCPServer(config);
+    first.setTestCatalog(catalog);
+    await first.initialize();
+    await first.stop();
+
+    const restarted = new UniplexMCPServer(config);
+    await restarted.initialize();
+    await restarted.stop();
+
+    expect((await restarted.handleCatalog()).version).toBe(7);
+  });
+
+  it('refuses snapshots without a persistent gate key', () => {
+    vi.stubEnv(DEFAULT_SIGNING_KEY_ENV, '');
+
+    expect(() => new UniplexMCPServer(createConfig({ cache }))).toThrow(
+      'cache.snapshot requires a persistent gate key'
+    );
+    expect(() => new UniplexMCPServer(createConfig({ cache, signer }))).not.toThrow();
+  });
+});
+
+// =========================================================================
+// REFRESH TESTS
+// =========================================================================
+
+describe('CacheManager refresh', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  function json(body: unknown, headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify(body), { status: 200, headers });
+  }
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('revalidates with If-None-Match and skips unchanged payloads', async () => {
+    const cache = new CacheManager(createConfig());
+    fetchMock.mockResolvedValueOnce(json({ version: 3, permissions: [] }, { ETag: '"v3"' }));
+    await cache.refreshCatalog();
+
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 304 }));
+    const outcome = await cache.refreshCatalog();
+
+    expect(outcome).toBe('skipped');
+    expect(fetchMock.mock.calls[1][1].headers['If-None-Match']).toBe('"v3"');
+    expect(cache.getCatalogVersion()).toBe(3);
+    expect(cache.getRefreshStats().catalog).toEqual({ applied: 1, skipped: 1, failed: 0, consecutive_failures: 0 });
+  });
+
+  it('applies revocation deltas since the last cursor', async () => {
+    const cache = new CacheManager(createConfig());
+    fetchMock.mockResolvedValueOnce(json({ passport_ids: ['p1', 'p2'], cursor: 'c1' }));
+    await cache.refreshRevocations();
+
+    fetchMock.mockResolvedValueOnce(json({ added: ['p3'], removed: ['p1'], cursor: 'c2' }));
+    await cache.refreshRevocations();
+
+    expect(new URL(fetchMock.mock.calls[0][0]).searchParams.has('since')).toBe(false);
+    expect(new URL(fetchMock.mock.calls[1][0]).searchParams.get('since')).toBe('c1');
+    expect(Array.from(cache.revocationList).sort()).toEqual(['p2', 'p3']);
+  });
+
+  it('refetches the full revocation list when the cursor has expired', async () => {
+    const cache = new CacheManager(createConfig());
+    fetchMock.mockResolvedValueOnce(json({ passport_ids: ['p1'], cursor: 'c1' }));
+    await cache.refreshRevocations();
+
+    fetchMock
+      .mockResolvedValueOnce(new Response(null, { status: 410 }))
+      .mockResolvedValueOnce(json({ passport_ids: ['p9'], cursor: 'c9' }));
+    const outcome = await cache.refreshRevocations();
+
+    expect(outcome).toBe('applied');
+    expect(new URL(fetchMock.mock.calls[2][0]).searchParams.has('since')).toBe(false);
+    expect(Array.from(cache.revocationList)).toEqual(['p9']);
+  });
+
+  it('backs off exponentially while refreshes fail', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+    const cache = new CacheManager(createConfig({
+      cache: {
+        catalog_max_age_minutes: 5,
+        revocation_max_age_minutes: 1,
+        fail_mode: 'fail_open',
+        refresh_backoff: { initial_ms: 1000, max_ms: 60000 },
+      },
+    }));
+
+    await cache.startBackgroundRefresh();
+    // Retries after 500ms (1s with jitter), then 1s (2s with jitter)
+    await vi.advanceTimersByTimeAsync(500);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(cache.getRefreshStats().catalog).toMatchObject({ failed: 3, consecutive_failures: 3 });
+
+    fetchMock.mockImplementation(async () => json({ version: 1, permissions: [], passport_ids: [], keys: {} }));
+    await vi.advanceTimersByTimeAsync(2000);
+    const afterRecovery = fetchMock.mock.calls.length;
+    await vi.advanceTimersByTimeAsync(30000);
+    cache.stopBackgroundRefresh();
+
+    expect(cache.getRefreshStats().catalog).toMatchObject({ applied: 1, consecutive_failures: 0 });
+    // Back on the normal schedule: nothing more until the next interval
+    expect(fetchMock.mock.calls.length).toBe(afterRecovery);
+  });
+});
+
+// =========================================================================
+// CATALOG CONTENT HASH TESTS
+// =========================================================================
+
+describe('CacheManager catalog content hash', () => {
+  const published = {
+    version: 4,
+    published_at: '2026-01-01T00:00:00.000Z',
+    permissions: [
+      { permission_key: 'flights:search', display_name: 'Search Flights', risk_level: 'low' as const, constraints: {} },
+      { permission_key: 'flights:book', display_name: 'Book Flights', risk_level: 'high' as const, constraints: { 'core:cost:max_per_action': 50000 } },
+    ],
+  };
+  const contentHash = computeCatalogContentHash({
+    gate_id: 'gate_test',
+    version: 4,
+    published_at: published.published_at,
+    permissions: Object.fromEntries(published.permissions.map(p => [p.permission_key, p])),
+  });
+
+  function serve(body: unknown): void {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(body))));
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('hashes independently of key and permission order', () => {
+    const reordered = computeCatalogContentHash({
+      permissions: Object.fromEntries([...published.permissions].reverse().map(p => [p.permission_key, { ...p }])),
+      published_at: published.published_at,
+      version: 4,
+      gate_id: 'gate_test',
+    });
+
+    expect(reordered).toBe(contentHash);
+    expect(contentHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('hashes fetched catalogs and accepts a matching content_hash', async () => {
+    const cache = new CacheManager(createConfig());
+    serve({ ...published, content_hash: contentHash });
+
+    expect(await cache.refreshCatalog()).toBe('applied');
+    expect(cache.getCatalogContentHash()).toBe(contentHash);
+  });
+
+  it('hashes catalogs published without published_at the same on every gate', async () => {
+    const { published_at: _, ...undated } = published;
+    const expected = computeCatalogContentHash({
+      gate_id: 'gate_test',
+      version: 4,
+      permissions: Object.fromEntries(published.permissions.map(p => [p.permission_key, p])),
+    });
+    serve(undated);
+
+    const first = new CacheManager(createConfig());
+    await first.refreshCatalog();
+    vi.useFakeTimers({ now: Date.now() + 60_000 });
+    const second = new CacheManager(createConfig());
+    await second.refreshCatalog();
+    vi.useRealTimers();
+
+    expect(first.getCatalogContentHash()).toBe(expected);
+    expect(second.getCatalogContentHash()).toBe(expected);
+  });
+
+  it('keeps the cached catalog when the content hash does not match', async () => {
+    const cache = new CacheManager(createConfig());
+    serve(published);
+    await cache.refreshCatalog();
+
+    serve({ ...published, version: 5, content_hash: contentHash });
+
+    expect(await cache.refreshCatalog()).toBe('failed');
+    expect(cache.getCatalogVersion()).toBe(4);
+  });
+
+  it('verifies the catalog signature from the Uniplex API', async () => {
+    const apiSigner = Ed25519Signer.generate('uniplex#catalog-1');
+    const cache = new CacheManager(createConfig({
+      cache: {
+        catalog_max_age_minutes: 5,
+        revocation_max_age_minutes: 1,
+        fail_mode: 'fail_open',
+        catalog_verification: {
+          public_key: bytesToHex(await apiSigner.getPublicKey()),
+          require_signature: true,
+        },
+      },
+    }));
+
+    serve(published);
+    expect(await cache.refreshCatalog()).toBe('failed');
+
+    serve({ ...published, signature: await signDetachedJws(contentHash, Ed25519Signer.generate('uniplex#catalog-1')) });
+    expect(await cache.refreshCatalog()).toBe('failed');
+
+    serve({ ...published, signature: await signDetachedJws(contentHash, apiSigner) });
+    expect(await cache.refreshCatalog()).toBe('applied');
+    expect(cache.getCatalogContentHash()).toBe(contentHash);
+  });
+
+  it('hashes catalogs set directly', () => {
+    const cache = new CacheManager(createConfig());
+    cache.updateCatalog({
+      gate_id: 'gate_test',
+      current: {
+        version: 4,
+        published_at: published.published_at,
+        permissionsByKey: Object.fromEntries(published.permissions.map(p => [p.permission_key, p])),
+      },
+      versions: {},
+      min_compatible_version: 1,
+      cached_at: Date.now(),
+      permissionsByKey: {},
+    });
+
+    expect(cache.getCatalogContentHash()).toBe(contentHash);
+  });
+});
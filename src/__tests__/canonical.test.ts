@@ -0,0 +1,60 @@
+/**
+ * Uniplex MCP Server - Canonical JSON Tests
+ *
+ * RFC 8785 (JCS) test vectors shared with the other Uniplex SDKs.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { canonicalize } from '../canonical.js';
+
+describe('canonicalize', () => {
+  it('matches the RFC 8785 §3.2.2 sample', () => {
+    const input = JSON.parse(
+      '{"numbers":[333333333.33333329,1E30,4.50,2e-3,0.000000000000000000000000001],' +
+      '"string":"\\u20ac$\\u000F\\u000aA\'\\u0042\\u0022\\u005c\\\\\\"\\/",' +
+      '"literals":[null,true,false]}'
+    );
+
+    expect(canonicalize(input)).toBe(
+      '{"literals":[null,true,false],' +
+      '"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27],' +
+      '"string":"€$\\u000f\\nA\'B\\"\\\\\\\\\\"/"}'
+    );
+  });
+
+  it('sorts members by UTF-16 code units (RFC 8785 §3.2.3)', () => {
+    const input = JSON.parse(
+      '{"\\u20ac":"Euro Sign","\\r":"Carriage Return","\\ufb33":"Hebrew Letter Dalet With Dagesh",' +
+      '"1":"One","\\ud83d\\ude00":"Emoji: Grinning Face","\\u0080":"Control",' +
+      '"\\u00f6":"Latin Small Letter O With Diaeresis"}'
+    );
+
+    // JSON.parse would reorder the integer-like key, so read names off the output
+    const order = canonicalize(input).match(/"[^"]*":/g)!.map(k => JSON.parse(k.slice(0, -1)));
+
+    expect(order).toEqual(['\r', '1', '\u0080', 'ö', '€', '😀', 'דּ']);
+  });
+
+  it('serializes numbers in ECMAScript shortest form', () => {
+    expect(canonicalize([1.0, -0, 1e21, 1e-7, 100, 0.1 + 0.2])).toBe(
+      '[1,0,1e+21,1e-7,100,0.30000000000000004]'
+    );
+  });
+
+  it('sorts nested objects and preserves array order', () => {
+    expect(canonicalize({ b: [{ z: 1, a: 2 }, 3], a: { d: true, c: null } })).toBe(
+      '{"a":{"c":null,"d":true},"b":[{"a":2,"z":1},3]}'
+    );
+  });
+
+  it('omits undefined members', () => {
+    expect(canonicalize({ a: 1, b: undefined })).toBe('{"a":1}');
+  });
+
+  it('rejects values JSON cannot represent', () => {
+    expect(() => canonicalize(NaN)).toThrow();
+    expect(() => canonicalize({ a: Infinity })).toThrow();
+    expect(() => canonicalize(10n)).toThrow();
+    expect(() => canonicalize('\ud800')).toThrow();
+  });
+});
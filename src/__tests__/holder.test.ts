@@ -0,0 +1,308 @@
+/**
+ * Uniplex MCP Server - Holder Binding Tests
+ *
+ * Tests for proof of possession: holder proofs, nonce replay protection
+ * and verifyLocally denying cnf-bound passports without a valid proof.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  InMemoryNonceCache,
+  RedisNonceCache,
+  createHolderProof,
+  holderConfirmation,
+  verifyHolderProof,
+} from '../holder.js';
+import {
+  verifyLocally,
+  buildPassportIndex,
+  canonicalPassportPayload,
+  InMemoryRateLimiter,
+} from '../verification.js';
+import { Ed25519Signer } from '../signing.js';
+import { UniplexMCPServer } from '../server.js';
+import {
+  CachedCatalog,
+  DenyReason,
+  GateDenyReason,
+  PassportConfirmation,
+  RateLimitConsumeResult,
+  RateLimitStore,
+} from '../types.js';
+
+// =========================================================================
+// TEST FIXTURES
+// =========================================================================
+
+const agent = Ed25519Signer.generate('agent_test#1');
+const thief = Ed25519Signer.generate('agent_thief#1');
+const call = {
+  gate_id: 'gate_test',
+  passport_id: 'passport_bound',
+  tool: 'search_flights',
+  input: { from: 'SFO', to: 'JFK' },
+};
+
+function createCatalog(): CachedCatalog {
+  const permissionsByKey = {
+    'flights:search': { permission_key: 'flights:search', display_name: 'Search', risk_level: 'low' as const, constraints: {} },
+  };
+  return {
+    gate_id: 'gate_test',
+    current: { version: 1, permissionsByKey, published_at: new Date().toISOString() },
+    versions: {},
+    min_compatible_version: 1,
+    cached_at: Date.now(),
+    permissionsByKey,
+  };
+}
+
+// =========================================================================
+// NONCE CACHE TESTS
+// =========================================================================
+
+describe('InMemoryNonceCache', () => {
+  it('refuses a nonce until it expires', async () => {
+    const cache = new InMemoryNonceCache();
+
+    expect(await cache.add('n1', 2000, 1000)).toBe(true);
+    expect(await cache.add('n1', 2000, 1500)).toBe(false);
+    expect(await cache.add('n1', 3000, 2000)).toBe(true);
+  });
+
+  it('lets one of two concurrent adds win', async () => {
+    const cache = new InMemoryNonceCache();
+    const results = await Promise.all([cache.add('n1', 2000, 1000), cache.add('n1', 2000, 1000)]);
+
+    expect(results.sort()).toEqual([false, true]);
+  });
+
+  it('drops expired nonces', async () => {
+    const cache = new InMemoryNonceCache();
+    await cache.add('n1', 2000, 1000);
+    await cache.add('n2', 5000, 1000);
+
+    expect(cache.cleanupExpired(3000)).toBe(1);
+    expect(cache.size).toBe(1);
+  });
+});
+
+describe('RedisNonceCache', () => {
+  it('records each nonce with one atomic SET NX until it expires', async () => {
+    const keys = new Map<string, number>();
+    const evalCalls: unknown[][] = [];
+    const client = {
+      eval: async (_script: string, _numKeys: number, ...args: Array<string | number>) => {
+        evalCalls.push(args);
+        const [key, expiresAt] = args as [string, number];
+        if (keys.has(key)) return 0;
+        keys.set(key, expiresAt);
+        return 1;
+      },
+    };
+    const cache = new RedisNonceCache(client);
+
+    expect(await cache.add('passport_bound:n1', 61_000, 1000)).toBe(true);
+    expect(await cache.add('passport_bound:n1', 61_000, 2000)).toBe(false);
+    expect(evalCalls[0]).toEqual(['uniplex:nonce:passport_bound:n1', 61_000, 1000]);
+  });
+});
+
+// =========================================================================
+// HOLDER PROOF TESTS
+// =========================================================================
+
+describe('verifyHolderProof', () => {
+  let cnf: PassportConfirmation;
+
+  beforeEach(async () => {
+    cnf = await holderConfirmation(agent);
+  });
+
+  it('accepts a proof from the cnf key and names its nonce', async () => {
+    const now = Date.now();
+    const iat = Math.floor(now / 1000);
+    const proof = await createHolderProof(agent, { ...call, nonce: 'n1', iat });
+
+    expect(verifyHolderProof(proof, cnf, call, { now })).toEqual({
+      valid: true,
+      nonce: { key: 'passport_bound:n1', expires_at: (iat + 300) * 1000 },
+    });
+  });
+
+  it('rejects missing proofs and proofs from another key', async () => {
+    const stolen = await createHolderProof(thief, call);
+
+    expect(verifyHolderProof(undefined, cnf, call).valid).toBe(false);
+    expect(verifyHolderProof(stolen, cnf, call)).toEqual({
+      valid: false,
+      reason: 'Holder proof signature is invalid',
+    });
+  });
+
+  it('binds the proof to the gate and passport', async () => {
+    const proof = await createHolderProof(agent, call);
+
+    expect(verifyHolderProof(proof, cnf, { ...call, gate_id: 'gate_other' })).toEqual({
+      valid: false,
+      reason: 'Holder proof was made for a different gate or passport',
+    });
+    expect(verifyHolderProof(proof, cnf, { ...call, passport_id: 'passport_other' }).valid).toBe(false);
+  });
+
+  it('binds the proof to the tool and input', async () => {
+    const proof = await createHolderProof(agent, call);
+    const result = verifyHolderProof(proof, cnf, { ...call, input: { from: 'SFO', to: 'LAX' } });
+
+    expect(result).toEqual({ valid: false, reason: 'Holder proof was made for a different call' });
+  });
+
+  it('rejects stale and future proofs', async () => {
+    const now = Date.now();
+    const iat = Math.floor(now / 1000);
+    const stale = await createHolderProof(agent, { ...call, iat: iat - 301 });
+    const future = await createHolderProof(agent, { ...call, iat: iat + 30 });
+
+    expect(verifyHolderProof(stale, cnf, call, { now }).valid).toBe(false);
+    expect(verifyHolderProof(future, cnf, call, { now }).valid).toBe(false);
+    expect(verifyHolderProof(future, cnf, call, { now, clockSkewSeconds: 60 }).valid).toBe(true);
+  });
+});
+
+// =========================================================================
+// VERIFY LOCALLY HOLDER BINDING TESTS
+// =========================================================================
+
+describe('verifyLocally holder binding', () => {
+  async function verifyWith(proof: string | undefined, bound = true) {
+    const passport = buildPassportIndex({
+      passport_id: call.passport_id,
+      issuer_id: 'issuer_trusted',
+      agent_id: 'agent_test',
+      gate_id: 'gate_test',
+      permissions: [{ permission_key: 'flights:search', constraints: {} }],
+      constraints: {},
+      signature: '0'.repeat(128),
+      expires_at: new Date(Date.now() + 3600_000).toISOString(),
+      issued_at: new Date().toISOString(),
+      ...(bound && { cnf: await holderConfirmation(agent) }),
+    });
+
+    return verifyLocally({
+      passport,
+      catalog: createCatalog(),
+      revocationList: new Set(),
+      issuerKeys: { 'issuer_trusted': '0'.repeat(64) },
+      rateLimiter: new InMemoryRateLimiter(),
+      action: 'flights:search',
+      context: {},
+      skipSignatureVerification: true,
+      holderProof: { proof, gate_id: call.gate_id, tool: call.tool, input: call.input },
+    });
+  }
+
+  it('permits a bound passport with a valid proof and returns its nonce', async () => {
+    const result = await verifyWith(await createHolderProof(agent, { ...call, nonce: 'n1' }));
+
+    expect(result.allowed).toBe(true);
+    expect(result.holder_nonce?.key).toBe('passport_bound:n1');
+  });
+
+  it('denies a bound passport used without the agent key', async () => {
+    const missing = await verifyWith(undefined);
+    const stolen = await verifyWith(await createHolderProof(thief, call));
+
+    expect(missing.denial?.code).toBe(GateDenyReason.HOLDER_PROOF_INVALID);
+    expect(stolen.denial?.code).toBe(GateDenyReason.HOLDER_PROOF_INVALID);
+    expect(stolen.constraint_decision).toBe('BLOCK');
+  });
+
+  it('denies a proof captured at another gate', async () => {
+    const result = await verifyWith(await createHolderProof(agent, { ...call, gate_id: 'gate_other' }));
+
+    expect(result.denial?.code).toBe(GateDenyReason.HOLDER_PROOF_INVALID);
+  });
+
+  it('leaves bearer passports alone', async () => {
+    const result = await verifyWith(undefined, false);
+
+    expect(result.allowed).toBe(true);
+    expect(result.holder_nonce).toBeUndefined();
+  });
+
+  it('signs the cnf key', async () => {
+    const cnf = await holderConfirmation(agent);
+    const payload = canonicalPassportPayload({
+      passport_id: 'p', issuer_id: 'i', agent_id: 'a', gate_id: 'g', permissions: [], constraints: {},
+      signature: '', expires_at: '', issued_at: '', cnf,
+    });
+
+    expect(payload).toContain(`"cnf":{"jwk":{"crv":"Ed25519","kty":"OKP","x":"${cnf.jwk.x}"}}`);
+  });
+});
+
+// =========================================================================
+// SERVER HOLDER BINDING TESTS
+// =========================================================================
+
+describe('server holder binding', () => {
+  const handler = vi.fn(async () => ({ results: [] }));
+
+  async function createServer(rateLimitStore?: RateLimitStore) {
+    const server = new UniplexMCPServer({
+      uniplex_api_url: 'https://mock.uniplex.dev',
+      gate_id: 'gate_test',
+      signing_key: { private_key: '11'.repeat(32) },
+      safe_default: { enabled: false, auto_issue: false, permissions: [], constraints: {}, max_lifetime: 'PT1H' },
+      trusted_issuers: [],
+      tools: [{ name: 'search_flights', permission_key: 'flights:search', inputSchema: { type: 'object' }, handler }],
+      ...(rateLimitStore && { rate_limit: { store: rateLimitStore } }),
+      test_mode: { enabled: true },
+    });
+    server.setTestCatalog(createCatalog());
+    await server.setTestSession({
+      sessionId: 'test',
+      passportId: call.passport_id,
+      permissions: ['flights:search'],
+      constraints: { 'core:rate:max_per_minute': 10 },
+      cnf: await holderConfirmation(agent),
+    });
+    return server;
+  }
+
+  beforeEach(() => {
+    handler.mockClear();
+  });
+
+  it('runs a call once per proof', async () => {
+    const server = await createServer();
+    const proof = await createHolderProof(agent, call);
+    const request = { name: call.tool, arguments: call.input, _meta: { uniplex_proof: proof } };
+
+    expect((await server.callTool(request)).isError).toBe(false);
+
+    const replayed = await server.callTool(request);
+
+    expect(replayed._meta?.uniplex_denial).toMatchObject({
+      code: GateDenyReason.HOLDER_PROOF_INVALID,
+      message: 'Holder proof nonce was already used',
+    });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not spend the proof of a rate-limited call', async () => {
+    const tryConsume = vi.fn<Parameters<RateLimitStore['tryConsume']>, Promise<RateLimitConsumeResult>>()
+      .mockResolvedValueOnce({ allowed: false })
+      .mockResolvedValue({ allowed: true });
+    const server = await createServer({ tryConsume });
+    const proof = await createHolderProof(agent, call);
+    const request = { name: call.tool, arguments: call.input, _meta: { uniplex_proof: proof } };
+
+    const limited = await server.callTool(request);
+    const retried = await server.callTool(request);
+
+    expect(limited._meta?.uniplex_denial?.code).toBe(DenyReason.RATE_LIMITED);
+    expect(retried.isError).toBe(false);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Uniplex MCP Server - HTTP Transport Tests
+ *
+ * Tests for the streamable HTTP endpoint: request body limits, DNS
+ * rebinding protection and eviction of abandoned sessions.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { request } from 'http';
+import { AddressInfo, createServer } from 'net';
+import { UniplexMCPServer } from '../server.js';
+import { InMemorySessionStore } from '../session.js';
+
+// =========================================================================
+// TEST FIXTURES
+// =========================================================================
+
+const initialize = JSON.stringify({
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test-client', version: '1.0.0' } },
+});
+
+const toolsList = JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+interface HttpResponse {
+  status: number;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+function post(port: number, body: string, headers: Record<string, string> = {}): Promise<HttpResponse> {
+  return new Promise((resolve, reject) => {
+    const req = request({
+      host: '127.0.0.1',
+      port,
+      path: '/mcp',
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream',
+        ...headers,
+      },
+    }, res => {
+      res.resume();
+      res.on('end', () => resolve({ status: res.statusCode!, headers: res.headers }));
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+async function freePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return port;
+}
+
+// =========================================================================
+// STREAMABLE HTTP TESTS
+// =========================================================================
+
+describe('streamable HTTP transport', () => {
+  let server: UniplexMCPServer;
+  let store: InMemorySessionStore;
+  let port: number;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    // The Uniplex API is unreachable; the gate starts without caches
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new Error('offline'); }));
+    store = new InMemorySessionStore();
+    server = new UniplexMCPServer({
+      uniplex_api_url: 'https://mock.uniplex.dev',
+      gate_id: 'gate_test',
+      signing_key: { private_key: '11'.repeat(32) },
+      safe_default: { enabled: false, auto_issue: false, permissions: [], constraints: {}, max_lifetime: 'PT1H' },
+      trusted_issuers: [],
+      tools: [],
+      session: { store, sweep_interval_minutes: 0.001 },
+    });
+    port = await freePort();
+    await server.runHttp({ port });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('opens a session for an initialize request', async () => {
+    const response = await post(port, initialize);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['mcp-session-id']).toBeDefined();
+  });
+
+  it('rejects request bodies over 1 MB', async () => {
+    const response = await post(port, JSON.stringify({ padding: 'x'.repeat(1024 * 1024) }));
+
+    expect(response.status).toBe(413);
+  });
+
+  it('rejects requests for a host name it was not bound to', async () => {
+    const response = await post(port, initialize, { Host: `attacker.example:${port}` });
+
+    expect(response.status).toBe(403);
+  });
+
+  it('evicts HTTP sessions the sweeper found inactive', async () => {
+    const sessionId = (await post(port, initialize)).headers['mcp-session-id'] as string;
+
+    expect((await post(port, toolsList, { 'mcp-session-id': sessionId })).status).toBe(200);
+
+    (await store.get(sessionId))!.last_activity -= 31 * 60 * 1000;
+    await vi.waitFor(async () => expect(await store.get(sessionId)).toBeUndefined());
+
+    expect((await post(port, toolsList, { 'mcp-session-id': sessionId })).status).toBe(404);
+  });
+});
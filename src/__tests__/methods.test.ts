@@ -0,0 +1,142 @@
+/**
+ * Uniplex MCP Server - Custom Method Tests
+ *
+ * Tests for uniplex/* request schemas and error codes.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  UNIPLEX_METHODS,
+  UNIPLEX_ERROR_CODES,
+  uniplexError,
+  PassportSchema,
+  CatalogRequestSchema,
+  SessionRequestSchema,
+  PresentPassportRequestSchema,
+  RequestPassportRequestSchema,
+  RequestApprovalRequestSchema,
+} from '../methods.js';
+
+describe('request schemas', () => {
+  it('accepts uniplex/catalog with or without params', () => {
+    expect(CatalogRequestSchema.safeParse({ method: 'uniplex/catalog' }).success).toBe(true);
+    expect(CatalogRequestSchema.safeParse({ method: 'uniplex/catalog', params: {} }).success).toBe(true);
+  });
+
+  it('rejects a mismatched method name', () => {
+    expect(CatalogRequestSchema.safeParse({ method: 'uniplex/session' }).success).toBe(false);
+  });
+
+  it('keeps the session id from params._meta', () => {
+    const parsed = SessionRequestSchema.parse({
+      method: 'uniplex/session',
+      params: { _meta: { sessionId: 'sess_1' } },
+    });
+
+    expect(parsed.params?._meta?.sessionId).toBe('sess_1');
+  });
+
+  it('requires a well-formed passport for uniplex/present-passport', () => {
+    const passport = {
+      passport_id: 'passport_1',
+      issuer_id: 'issuer_trusted',
+      agent_id: 'agent_1',
+      gate_id: 'gate_test',
+      permissions: [{ permission_key: 'flights:search', constraints: {} }],
+      constraints: {},
+      signature: 'ab'.repeat(64),
+      expires_at: '2099-01-01T00:00:00Z',
+      issued_at: '2026-01-01T00:00:00Z',
+    };
+
+    expect(PresentPassportRequestSchema.safeParse({
+      method: 'uniplex/present-passport',
+      params: { passport },
+    }).success).toBe(true);
+
+    const { signature: _, ...unsigned } = passport;
+    expect(PresentPassportRequestSchema.safeParse({
+      method: 'uniplex/present-passport',
+      params: { passport: unsigned },
+    }).success).toBe(false);
+  });
+
+  it('strips a client-supplied claimsByKey index from presented passports', () => {
+    const parsed = PassportSchema.parse({
+      passport_id: 'passport_1',
+      issuer_id: 'issuer_trusted',
+      agent_id: 'agent_1',
+      gate_id: 'gate_test',
+      permissions: [],
+      constraints: {},
+      signature: 'ab'.repeat(64),
+      expires_at: '2099-01-01T00:00:00Z',
+      issued_at: '2026-01-01T00:00:00Z',
+      claimsByKey: { 'admin:manage': { permission_key: 'admin:manage', constraints: {} } },
+    });
+
+    expect('claimsByKey' in parsed).toBe(false);
+  });
+
+  it('requires permissions for uniplex/request-passport', () => {
+    expect(RequestPassportRequestSchema.safeParse({
+      method: 'uniplex/request-passport',
+      params: {},
+    }).success).toBe(false);
+
+    expect(RequestPassportRequestSchema.safeParse({
+      method: 'uniplex/request-passport',
+      params: { permissions: ['flights:book'], template: 'travel-booker' },
+    }).success).toBe(true);
+  });
+
+  it('requires permissions for uniplex/request-approval', () => {
+    expect(RequestApprovalRequestSchema.safeParse({
+      method: 'uniplex/request-approval',
+      params: { permissions: 'flights:book' },
+    }).success).toBe(false);
+
+    expect(RequestApprovalRequestSchema.safeParse({
+      method: 'uniplex/request-approval',
+      params: { permissions: ['flights:book'], reason: 'Booking for user' },
+    }).success).toBe(true);
+  });
+});
+
+describe('UNIPLEX_METHODS', () => {
+  it('lists all custom methods', () => {
+    expect(Object.values(UNIPLEX_METHODS)).toEqual([
+      'uniplex/catalog',
+      'uniplex/session',
+      'uniplex/present-passport',
+      'uniplex/request-passport',
+      'uniplex/request-approval',
+      'uniplex/jwks',
+      'uniplex/approval-status',
+    ]);
+  });
+});
+
+describe('uniplexError', () => {
+  it('creates an McpError with the numeric code and a stable string code', () => {
+    const error = uniplexError(UNIPLEX_ERROR_CODES.CATALOG_NOT_LOADED, 'Catalog not loaded');
+
+    expect(error).toBeInstanceOf(McpError);
+    expect(error.code).toBe(-32050);
+    expect(error.data).toEqual({ uniplex_error: 'catalog_not_loaded' });
+  });
+
+  it('merges additional error data', () => {
+    const error = uniplexError(
+      UNIPLEX_ERROR_CODES.INVALID_PERMISSIONS,
+      'Unknown permissions',
+      { unknown_permissions: ['x:y'] }
+    );
+
+    expect(error.data).toEqual({
+      uniplex_error: 'invalid_permissions',
+      unknown_permissions: ['x:y'],
+    });
+  });
+});
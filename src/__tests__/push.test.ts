@@ -0,0 +1,260 @@
+/**
+ * Uniplex MCP Server - Push Tests
+ *
+ * Tests for push-based cache invalidation: SSE parsing, webhook
+ * signatures and CacheManager applying pushed events.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AddressInfo, createServer } from 'net';
+import { CacheManager } from '../cache.js';
+import {
+  parsePushEvent,
+  readSseMessages,
+  signWebhook,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from '../push.js';
+import { CachePushConfig, UniplexMCPServerConfig } from '../types.js';
+
+// =========================================================================
+// TEST FIXTURES
+// =========================================================================
+
+const SECRET = 'gate_secret_test';
+
+function createCache(push: CachePushConfig): CacheManager {
+  const config: UniplexMCPServerConfig = {
+    uniplex_api_url: 'https://mock.uniplex.dev',
+    gate_id: 'gate_test',
+    gate_secret: SECRET,
+    safe_default: { enabled: false, auto_issue: false, permissions: [], constraints: {}, max_lifetime: 'PT1H' },
+    trusted_issuers: [],
+    tools: [],
+    cache: {
+      catalog_max_age_minutes: 5,
+      revocation_max_age_minutes: 1,
+      fail_mode: 'fail_open',
+      push,
+    },
+  };
+  return new CacheManager(config);
+}
+
+async function freePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return port;
+}
+
+async function collect(chunks: string[]): Promise<Array<{ id?: string; data: string }>> {
+  async function* body() {
+    for (const chunk of chunks) yield new TextEncoder().encode(chunk);
+  }
+  const messages = [];
+  for await (const message of readSseMessages(body())) messages.push(message);
+  return messages;
+}
+
+/**
+ * An SSE response whose stream the test writes to and closes.
+ * Like a real fetch, aborting the request errors the stream.
+ */
+function sseStream() {
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  const body = new ReadableStream<Uint8Array>({ start(c) { controller = c; } });
+  return {
+    connect: (signal?: AbortSignal | null) => {
+      signal?.addEventListener('abort', () => controller.error(signal.reason));
+      return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+    },
+    send: (text: string) => controller.enqueue(new TextEncoder().encode(text)),
+    close: () => controller.close(),
+  };
+}
+
+// =========================================================================
+// SSE PARSING TESTS
+// =========================================================================
+
+describe('readSseMessages', () => {
+  it('parses ids and multi-line data split across chunks', async () => {
+    const messages = await collect(['id: 7\ndata: {"a":', '\ndata: 1}\n', '\n']);
+
+    expect(messages).toEqual([{ id: '7', data: '{"a":\n1}' }]);
+  });
+
+  it('yields heartbeats for comment lines', async () => {
+    const messages = await collect([': ping\r\n\r\n', 'data: x\r\n\r\n']);
+
+    expect(messages).toEqual([{ data: '' }, { data: 'x' }]);
+  });
+});
+
+describe('parsePushEvent', () => {
+  it('accepts revocation and catalog events', () => {
+    expect(parsePushEvent('{"type":"revocations","added":["p1"]}')).toEqual({ type: 'revocations', added: ['p1'] });
+    expect(parsePushEvent('{"type":"catalog","version":4}')).toEqual({ type: 'catalog', version: 4 });
+  });
+
+  it('rejects malformed events', () => {
+    expect(parsePushEvent('not json')).toBeUndefined();
+    expect(parsePushEvent('{"type":"revocations","added":[1]}')).toBeUndefined();
+    expect(parsePushEvent('{"type":"unknown"}')).toBeUndefined();
+  });
+});
+
+// =========================================================================
+// WEBHOOK SIGNATURE TESTS
+// =========================================================================
+
+describe('verifyWebhookSignature', () => {
+  const body = '{"type":"revocations","added":["p1"]}';
+  const now = Date.now();
+  const timestamp = Math.floor(now / 1000);
+
+  it('accepts a body signed with the gate secret', () => {
+    expect(verifyWebhookSignature(SECRET, body, String(timestamp), signWebhook(SECRET, body, timestamp), now)).toBe(true);
+  });
+
+  it('rejects other secrets and altered bodies', () => {
+    const signature = signWebhook('other_secret', body, timestamp);
+
+    expect(verifyWebhookSignature(SECRET, body, String(timestamp), signature, now)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, body.replace('p1', 'p2'), String(timestamp), signWebhook(SECRET, body, timestamp), now)).toBe(false);
+  });
+
+  it('rejects stale timestamps', () => {
+    const old = timestamp - 600;
+
+    expect(verifyWebhookSignature(SECRET, body, String(old), signWebhook(SECRET, body, old), now)).toBe(false);
+  });
+});
+
+// =========================================================================
+// CACHE MANAGER PUSH TESTS
+// =========================================================================
+
+describe('CacheManager push', () => {
+  let cache: CacheManager | undefined;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    cache?.stopBackgroundRefresh();
+    cache = undefined;
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('applies signed webhook revocations immediately', async () => {
+    const port = await freePort();
+    cache = createCache({ webhook: { port } });
+    await cache.startPush();
+    const url = `http://127.0.0.1:${port}/uniplex/events`;
+    const body = JSON.stringify({ type: 'revocations', added: ['passport_revoked'] });
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    const forged = await fetch(url, {
+      method: 'POST',
+      body,
+      headers: { [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp), [WEBHOOK_SIGNATURE_HEADER]: signWebhook('wrong', body, timestamp) },
+    });
+
+    expect(forged.status).toBe(401);
+    expect(cache.revocationList.size).toBe(0);
+
+    const signed = await fetch(url, {
+      method: 'POST',
+      body,
+      headers: { [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp), [WEBHOOK_SIGNATURE_HEADER]: signWebhook(SECRET, body, timestamp) },
+    });
+
+    expect(signed.status).toBe(204);
+    expect(cache.revocationList.has('passport_revoked')).toBe(true);
+  });
+
+  it('requires gate_secret for webhooks', async () => {
+    cache = new CacheManager({
+      uniplex_api_url: 'https://mock.uniplex.dev',
+      gate_id: 'gate_test',
+      safe_default: { enabled: false, auto_issue: false, permissions: [], constraints: {}, max_lifetime: 'PT1H' },
+      trusted_issuers: [],
+      tools: [],
+      cache: { catalog_max_age_minutes: 5, revocation_max_age_minutes: 1, fail_mode: 'fail_open', push: { webhook: { port: 0 } } },
+    });
+
+    await expect(cache.startPush()).rejects.toThrow('gate_secret');
+  });
+
+  it('refuses to start background refresh before fetching when webhooks lack gate_secret', async () => {
+    const fetchMock = vi.fn(async () => new Response('{}'));
+    vi.stubGlobal('fetch', fetchMock);
+    cache = new CacheManager({
+      uniplex_api_url: 'https://mock.uniplex.dev',
+      gate_id: 'gate_test',
+      safe_default: { enabled: false, auto_issue: false, permissions: [], constraints: {}, max_lifetime: 'PT1H' },
+      trusted_issuers: [],
+      tools: [],
+      cache: { catalog_max_age_minutes: 5, revocation_max_age_minutes: 1, fail_mode: 'fail_open', push: { webhook: { port: 0 } } },
+    });
+
+    await expect(cache.startBackgroundRefresh()).rejects.toThrow('gate_secret');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('applies streamed events and falls back to polling when the stream drops', async () => {
+    const stream = sseStream();
+    const polls: string[] = [];
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit) => {
+      if (url.endsWith('/events')) {
+        expect((init.headers as Record<string, string>)['Authorization']).toBe(`Bearer ${SECRET}`);
+        return stream.connect(init.signal);
+      }
+      if (url.includes('/catalog')) {
+        return new Response(JSON.stringify({ version: 2, permissions: [] }));
+      }
+      polls.push(url);
+      return new Response(JSON.stringify({ passport_ids: [] }));
+    }));
+    cache = createCache({ sse: {} });
+
+    await cache.startPush();
+    await vi.waitFor(() => expect(cache!.isPushConnected()).toBe(true));
+    // One catch-up poll on connect
+    await vi.waitFor(() => expect(polls).toHaveLength(1));
+
+    stream.send('data: {"type":"revocations","added":["passport_revoked"]}\n\n');
+    stream.send('data: {"type":"catalog","version":2}\n\n');
+    await vi.waitFor(() => expect(cache!.revocationList.has('passport_revoked')).toBe(true));
+    await vi.waitFor(() => expect(cache!.getCatalogVersion()).toBe(2));
+
+    stream.close();
+    await vi.waitFor(() => expect(cache!.isPushConnected()).toBe(false));
+    await vi.waitFor(() => expect(polls).toHaveLength(2));
+  });
+
+  it('drops a stream that stays open but sends nothing and polls instead', async () => {
+    const polls: string[] = [];
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit) => {
+      if (url.endsWith('/events')) return sseStream().connect(init.signal);
+      polls.push(url);
+      return new Response(JSON.stringify({ passport_ids: [] }));
+    }));
+    cache = createCache({ sse: { idle_timeout_ms: 50 } });
+
+    await cache.startPush();
+
+    await vi.waitFor(() => {
+      expect(console.error).toHaveBeenCalledWith('Push stream dropped:', new Error('Push stream sent nothing for 50ms'));
+    });
+    expect(cache.isPushConnected()).toBe(false);
+    // The catch-up poll on connect, then polling while disconnected
+    await vi.waitFor(() => expect(polls).toHaveLength(2));
+  });
+});
@@ -0,0 +1,406 @@
+/**
+ * Uniplex MCP Server - Rate Limit Tests
+ *
+ * Tests for the rate limiting algorithms, atomic tryConsume and shared
+ * rate limit stores.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi, Mock } from 'vitest';
+import {
+  LocalRateLimiter,
+  InMemoryRateLimiter,
+  SlidingLogRateLimiter,
+  SlidingWindowRateLimiter,
+  TokenBucketRateLimiter,
+  SharedRateLimiter,
+  InMemoryRateLimitStore,
+  RedisRateLimitStore,
+  REDIS_RATE_LIMIT_SCRIPTS,
+  RedisLikeClient,
+} from '../ratelimit.js';
+import { UniplexMCPServer } from '../server.js';
+import { CachedCatalog, DenyReason, RateLimitAlgorithm } from '../types.js';
+
+const MINUTE = 60 * 1000;
+const T0 = new Date('2026-01-01T00:00:00Z').getTime();
+
+function consumeTimes(limiter: LocalRateLimiter, times: number): number {
+  let allowed = 0;
+  for (let i = 0; i < times; i++) {
+    if (limiter.tryConsume('action', 'passport_1')) allowed++;
+  }
+  return allowed;
+}
+
+// =========================================================================
+// ALGORITHM TESTS
+// =========================================================================
+
+describe('local rate limiters', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(T0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const limiters: Array<[RateLimitAlgorithm, () => LocalRateLimiter]> = [
+    ['fixed_window', () => new InMemoryRateLimiter()],
+    ['sliding_log', () => new SlidingLogRateLimiter()],
+    ['sliding_window', () => new SlidingWindowRateLimiter()],
+    ['token_bucket', () => new TokenBucketRateLimiter()],
+  ];
+
+  for (const [algorithm, create] of limiters) {
+    it(`${algorithm}: allows max calls per window`, () => {
+      const limiter = create();
+      limiter.setLimit('action', 5, MINUTE);
+
+      expect(consumeTimes(limiter, 10)).toBe(5);
+      expect(limiter.check('action', 'passport_1')).toBe(false);
+      expect(limiter.check('action', 'passport_2')).toBe(true);
+    });
+  }
+
+  it('fixed_window allows a 2× burst across a window boundary', () => {
+    const limiter = new InMemoryRateLimiter();
+    limiter.setLimit('action', 5, MINUTE);
+    consumeTimes(limiter, 1);  // opens the window
+    vi.setSystemTime(T0 + MINUTE - 1000);
+    consumeTimes(limiter, 4);
+
+    vi.setSystemTime(T0 + MINUTE + 1000);
+
+    expect(consumeTimes(limiter, 5)).toBe(5);
+  });
+
+  it('sliding_log holds the limit across a window boundary', () => {
+    const limiter = new SlidingLogRateLimiter();
+    limiter.setLimit('action', 5, MINUTE);
+    vi.setSystemTime(T0 + MINUTE - 1000);
+    consumeTimes(limiter, 5);
+
+    vi.setSystemTime(T0 + MINUTE + 1000);
+    expect(consumeTimes(limiter, 5)).toBe(0);
+
+    vi.setSystemTime(T0 + 2 * MINUTE);
+    expect(consumeTimes(limiter, 5)).toBe(5);
+  });
+
+  it('sliding_window weights the previous window', () => {
+    const limiter = new SlidingWindowRateLimiter();
+    limiter.setLimit('action', 10, MINUTE);
+    consumeTimes(limiter, 10);
+
+    // A quarter into the next window, 75% of the previous 10 still count
+    vi.setSystemTime(T0 + MINUTE + MINUTE / 4);
+
+    expect(consumeTimes(limiter, 10)).toBe(3);
+  });
+
+  it('token_bucket refills evenly over the window', () => {
+    const limiter = new TokenBucketRateLimiter();
+    limiter.setLimit('action', 6, MINUTE);
+    consumeTimes(limiter, 6);
+
+    vi.setSystemTime(T0 + 20 * 1000);
+
+    expect(consumeTimes(limiter, 6)).toBe(2);
+  });
+
+  it('reports Retry-After from the oldest call in a sliding log', () => {
+    const limiter = new SlidingLogRateLimiter();
+    limiter.setLimit('action', 2, MINUTE);
+    consumeTimes(limiter, 1);
+    vi.setSystemTime(T0 + 10 * 1000);
+    consumeTimes(limiter, 1);
+
+    vi.setSystemTime(T0 + 15 * 1000);
+
+    expect(limiter.status('action', 'passport_1')).toEqual({
+      limit: 2,
+      remaining: 0,
+      window_seconds: 60,
+      reset_at: new Date(T0 + 70 * 1000).toISOString(),
+      retry_after_seconds: 45,
+    });
+  });
+
+  it('reports the most constrained window', () => {
+    const limiter = new InMemoryRateLimiter();
+    const limits = [{ max: 10, windowMs: MINUTE }, { max: 3, windowMs: 60 * MINUTE }];
+    limiter.tryConsume('action', 'passport_1', limits);
+
+    const status = limiter.status('action', 'passport_1', limits);
+
+    expect(status).toMatchObject({ limit: 3, remaining: 2, window_seconds: 3600 });
+    expect(status?.retry_after_seconds).toBeUndefined();
+  });
+
+  it('reports when the next token is available', () => {
+    const limiter = new TokenBucketRateLimiter();
+    limiter.setLimit('action', 6, MINUTE);
+    consumeTimes(limiter, 6);
+
+    expect(limiter.status('action', 'passport_1')?.retry_after_seconds).toBe(10);
+  });
+
+  it('reports no status without limits', () => {
+    expect(new SlidingWindowRateLimiter().status('action', 'passport_1')).toBeUndefined();
+  });
+
+  it('tryConsume counts a call in every window or in none', () => {
+    const limiter = new SlidingLogRateLimiter();
+    const limits = [{ max: 10, windowMs: MINUTE }, { max: 1, windowMs: 24 * 60 * MINUTE }];
+    limiter.tryConsume('action', 'passport_1', limits);
+
+    for (let i = 0; i < 5; i++) {
+      expect(limiter.tryConsume('action', 'passport_1', limits)).toBe(false);
+    }
+
+    // The denied calls were not counted in the minute window
+    expect(limiter.check('action', 'passport_1', [{ max: 2, windowMs: MINUTE }])).toBe(true);
+  });
+
+  it('drops counters once every window has replenished', () => {
+    const limiter = new SlidingWindowRateLimiter();
+    limiter.tryConsume('action', 'passport_1', [{ max: 5, windowMs: MINUTE }]);
+    limiter.tryConsume('action', 'passport_2', [{ max: 5, windowMs: 60 * MINUTE }]);
+
+    expect(limiter.prune(T0 + 2 * MINUTE - 1)).toBe(0);
+    expect(limiter.prune(T0 + 2 * MINUTE)).toBe(1);
+    expect(limiter.size).toBe(1);
+  });
+
+  it('prunes idle counters as new calls are counted', () => {
+    const limiter = new InMemoryRateLimiter();
+    limiter.setLimit('action', 5, MINUTE);
+    consumeTimes(limiter, 1);
+
+    vi.setSystemTime(T0 + 2 * MINUTE);
+    limiter.tryConsume('action', 'passport_2');
+
+    expect(limiter.size).toBe(1);
+  });
+});
+
+// =========================================================================
+// SHARED RATE LIMITER TESTS
+// =========================================================================
+
+describe('SharedRateLimiter', () => {
+  it('shares counters between gate replicas through the store', async () => {
+    const store = new InMemoryRateLimitStore();
+    const replicaA = new SharedRateLimiter(store, 'sliding_log');
+    const replicaB = new SharedRateLimiter(store, 'sliding_log');
+    const limits = [{ max: 3, windowMs: MINUTE }];
+
+    const results = await Promise.all([
+      replicaA.tryConsume('action', 'passport_1', limits),
+      replicaB.tryConsume('action', 'passport_1', limits),
+      replicaA.tryConsume('action', 'passport_1', limits),
+      replicaB.tryConsume('action', 'passport_1', limits),
+    ]);
+
+    expect(results.filter(r => r.allowed)).toHaveLength(3);
+  });
+
+  it('reports the quota left, and when to retry once refused', async () => {
+    const limiter = new SharedRateLimiter(new InMemoryRateLimitStore(), 'sliding_log');
+    const limits = [{ max: 2, windowMs: MINUTE }];
+
+    expect((await limiter.tryConsume('action', 'passport_1', limits)).status).toMatchObject({ limit: 2, remaining: 1 });
+    await limiter.tryConsume('action', 'passport_1', limits);
+
+    const refused = await limiter.tryConsume('action', 'passport_1', limits);
+
+    expect(refused.allowed).toBe(false);
+    expect(refused.status).toMatchObject({ remaining: 0, retry_after_seconds: 60 });
+    expect(await limiter.status('action', 'passport_1', limits)).toMatchObject({ remaining: 0 });
+  });
+
+  it('allows calls without limits', async () => {
+    const limiter = new SharedRateLimiter(new InMemoryRateLimitStore());
+    expect(await limiter.tryConsume('action', 'passport_1')).toEqual({ allowed: true });
+  });
+});
+
+describe('RedisRateLimitStore', () => {
+  let client: { eval: Mock<Parameters<RedisLikeClient['eval']>, Promise<unknown>> };
+
+  beforeEach(() => {
+    client = { eval: vi.fn<Parameters<RedisLikeClient['eval']>, Promise<unknown>>(async () => [1, []]) };
+  });
+
+  it('runs one EVAL with a key and limit per window', async () => {
+    const store = new RedisRateLimitStore(client, { prefix: 'gate:' });
+    const limits = [{ max: 10, windowMs: MINUTE }, { max: 100, windowMs: 60 * MINUTE }];
+
+    expect((await store.tryConsume('flights:book:passport_1', 'token_bucket', limits, T0)).allowed).toBe(true);
+
+    const [script, numKeys, ...args] = client.eval.mock.calls[0];
+    expect(script).toBe(REDIS_RATE_LIMIT_SCRIPTS.token_bucket);
+    expect(numKeys).toBe(2);
+    expect(args.slice(0, 2)).toEqual([
+      `gate:token_bucket:flights:book:passport_1:${MINUTE}`,
+      `gate:token_bucket:flights:book:passport_1:${60 * MINUTE}`,
+    ]);
+    expect(args[2]).toBe(T0);
+    expect(args.slice(4)).toEqual([10, MINUTE, 100, 60 * MINUTE]);
+  });
+
+  it('denies when the script returns 0, with the quota from its window states', async () => {
+    client.eval.mockResolvedValue([0, [[T0 - 30 * 1000, T0 + 30 * 1000]]]);
+    const store = new RedisRateLimitStore(client);
+
+    const result = await store.tryConsume('key', 'sliding_log', [{ max: 2, windowMs: MINUTE }], T0);
+
+    expect(result.allowed).toBe(false);
+    expect(result.status).toMatchObject({ limit: 2, remaining: 0, retry_after_seconds: 30 });
+  });
+
+  it('decodes fractional token counts sent as strings', async () => {
+    client.eval.mockResolvedValue([1, [['2.5', T0]]]);
+    const store = new RedisRateLimitStore(client);
+
+    const result = await store.tryConsume('key', 'token_bucket', [{ max: 6, windowMs: MINUTE }], T0);
+
+    expect(result.status).toMatchObject({ limit: 6, remaining: 2 });
+  });
+
+  it('reads the quota without counting a call', async () => {
+    client.eval.mockResolvedValue([1, [[3, T0 + 20 * 1000]]]);
+    const store = new RedisRateLimitStore(client);
+
+    const status = await store.status('key', 'fixed_window', [{ max: 5, windowMs: MINUTE }], T0);
+
+    expect(client.eval.mock.calls[0][4]).toBe('');
+    expect(status).toMatchObject({ limit: 5, remaining: 2, reset_at: new Date(T0 + 20 * 1000).toISOString() });
+  });
+});
+
+// =========================================================================
+// SERVER SHARED RATE LIMIT TESTS
+// =========================================================================
+
+describe('server rate limits', () => {
+  function createServer(store?: InMemoryRateLimitStore | RedisRateLimitStore): UniplexMCPServer {
+    const server = new UniplexMCPServer({
+      uniplex_api_url: 'https://mock.uniplex.dev',
+      gate_id: 'gate_test',
+      signing_key: { private_key: '11'.repeat(32) },
+      safe_default: { enabled: false, auto_issue: false, permissions: [], constraints: {}, max_lifetime: 'PT1H' },
+      trusted_issuers: [],
+      tools: [{
+        name: 'search_flights',
+        permission_key: 'flights:search',
+        inputSchema: { type: 'object' },
+        handler: async () => ({ flights: [] }),
+      }],
+      rate_limit: { algorithm: 'sliding_log', ...(store && { store }) },
+      test_mode: { enabled: true },
+    });
+
+    const permissions = {
+      'flights:search': {
+        permission_key: 'flights:search',
+        display_name: 'Search Flights',
+        risk_level: 'low' as const,
+        constraints: {},
+      },
+    };
+    const catalog: CachedCatalog = {
+      gate_id: 'gate_test',
+      current: { version: 1, permissionsByKey: permissions, published_at: new Date().toISOString() },
+      versions: {},
+      min_compatible_version: 1,
+      cached_at: Date.now(),
+      permissionsByKey: permissions,
+    };
+    server.setTestCatalog(catalog);
+    return server;
+  }
+
+  it('returns Retry-After on rate-limited denials', async () => {
+    const server = createServer();
+    await server.setTestSession({
+      sessionId: 'test',
+      permissions: ['flights:search'],
+      constraints: { 'core:rate:max_per_minute': 1 },
+    });
+
+    const allowed = await server.callTool({ name: 'search_flights', arguments: {} });
+    const denied = await server.callTool({ name: 'search_flights', arguments: {} });
+
+    expect(allowed._meta?.uniplex_rate_limit).toMatchObject({ limit: 1, remaining: 0 });
+    expect(denied._meta?.uniplex_denial?.retry_after_seconds).toBeGreaterThan(0);
+    expect(denied._meta?.uniplex_denial?.rate_limit?.remaining).toBe(0);
+    expect(denied.content[0].text).toMatch(/Retry after \d+ seconds/);
+  });
+
+  it('hints remaining quota in tools/list', async () => {
+    const server = createServer();
+    await server.setTestSession({
+      sessionId: 'test',
+      permissions: ['flights:search'],
+      constraints: { 'core:rate:max_per_hour': 5 },
+    });
+    await server.callTool({ name: 'search_flights', arguments: {} });
+
+    const { tools } = await server.listTools();
+
+    expect(tools[0].uniplex.session_state.rate_limit).toMatchObject({ limit: 5, remaining: 4 });
+  });
+
+  it('enforces passport rate limits through a shared store', async () => {
+    const server = createServer(new InMemoryRateLimitStore());
+    await server.setTestSession({
+      sessionId: 'test',
+      permissions: ['flights:search'],
+      constraints: { 'core:rate:max_per_minute': 1 },
+    });
+
+    expect((await server.callTool({ name: 'search_flights', arguments: {} })).isError).toBe(false);
+
+    const denied = await server.callTool({ name: 'search_flights', arguments: {} });
+
+    expect(denied._meta?.uniplex_denial?.code).toBe(DenyReason.RATE_LIMITED);
+    expect(denied._meta?.uniplex_denial?.retry_after_seconds).toBeGreaterThan(0);
+    expect(denied._meta?.uniplex_denial?.rate_limit?.remaining).toBe(0);
+    expect(denied.content[0].text).toMatch(/Retry after \d+ seconds/);
+  });
+
+  it('reports shared quota on allowed calls and in tools/list', async () => {
+    const server = createServer(new InMemoryRateLimitStore());
+    await server.setTestSession({
+      sessionId: 'test',
+      permissions: ['flights:search'],
+      constraints: { 'core:rate:max_per_hour': 5 },
+    });
+
+    const allowed = await server.callTool({ name: 'search_flights', arguments: {} });
+    const { tools } = await server.listTools();
+
+    expect(allowed._meta?.uniplex_rate_limit).toMatchObject({ limit: 5, remaining: 4 });
+    expect(tools[0].uniplex.session_state.rate_limit).toMatchObject({ limit: 5, remaining: 4 });
+  });
+
+  it('fails closed when the store is unreachable', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const server = createServer(new RedisRateLimitStore({
+      eval: async () => { throw new Error('ECONNREFUSED'); },
+    }));
+    await server.setTestSession({
+      sessionId: 'test',
+      permissions: ['flights:search'],
+      constraints: { 'core:rate:max_per_minute': 1 },
+    });
+
+    const result = await server.callTool({ name: 'search_flights', arguments: {} });
+
+    expect(result._meta?.uniplex_denial?.code).toBe(DenyReason.RATE_LIMITED);
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Uniplex MCP Server - Session Tests
+ *
+ * Tests for SessionManager, session stores and session expiry.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SessionManager, InMemorySessionStore, FileSessionStore } from '../session.js';
+import { Passport, SessionStore } from '../types.js';
+
+// =========================================================================
+// TEST FIXTURES
+// =========================================================================
+
+function createPassport(overrides: Partial<Passport> = {}): Passport {
+  return {
+    passport_id: 'passport_1',
+    issuer_id: 'issuer_trusted',
+    agent_id: 'agent_1',
+    gate_id: 'gate_test',
+    permissions: [{ permission_key: 'flights:*', constraints: {} }],
+    constraints: {},
+    signature: '0'.repeat(128),
+    expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    issued_at: new Date().toISOString(),
+    claimsByKey: {},
+    ...overrides,
+  };
+}
+
+function createManager(store?: SessionStore): SessionManager {
+  return new SessionManager({
+    safe_default: {
+      enabled: false,
+      auto_issue: false,
+      permissions: [],
+      constraints: {},
+      max_lifetime: 'PT1H',
+    },
+    uniplex_api_url: 'https://mock.uniplex.dev',
+    gate_id: 'gate_test',
+    store,
+    max_inactive_minutes: 30,
+  });
+}
+
+// =========================================================================
+// SESSION MANAGER TESTS
+// =========================================================================
+
+describe('SessionManager', () => {
+  it('creates sessions in the in-memory store by default', async () => {
+    const manager = createManager();
+    await manager.getOrCreateSession('sess_1');
+
+    expect((await manager.listSessions()).map(s => s.session_id)).toEqual(['sess_1']);
+  });
+
+  it('binds passports with a permission index', async () => {
+    const manager = createManager();
+    await manager.getOrCreateSession('sess_1');
+    await manager.setPassport('sess_1', createPassport());
+
+    expect(await manager.sessionHasPermission('sess_1', 'flights:book')).toBe(true);
+    expect(await manager.getSessionPermissions('sess_1')).toEqual(['flights:*']);
+  });
+
+  it('removes inactive sessions', async () => {
+    const store = new InMemorySessionStore();
+    const manager = createManager(store);
+    await manager.getOrCreateSession('sess_old');
+    await manager.getOrCreateSession('sess_new');
+    (await store.get('sess_old'))!.last_activity = Date.now() - 31 * 60 * 1000;
+
+    expect(await manager.cleanupInactiveSessions()).toBe(1);
+    expect(await manager.getSession('sess_old')).toBeUndefined();
+    expect(await manager.getSession('sess_new')).toBeDefined();
+  });
+
+  it('reports each session it removes for inactivity', async () => {
+    const onExpired = vi.fn();
+    const manager = new SessionManager({
+      safe_default: { enabled: false, auto_issue: false, permissions: [], constraints: {}, max_lifetime: 'PT1H' },
+      uniplex_api_url: 'https://mock.uniplex.dev',
+      gate_id: 'gate_test',
+      on_session_expired: onExpired,
+    });
+    await manager.getOrCreateSession('sess_1');
+
+    await manager.cleanupInactiveSessions(-1);
+
+    expect(onExpired).toHaveBeenCalledWith('sess_1');
+  });
+
+  it('writes last_activity at most once a minute', async () => {
+    const store = new InMemorySessionStore();
+    const set = vi.spyOn(store, 'set');
+    const manager = createManager(store);
+    await manager.getOrCreateSession('sess_1');
+    await manager.getOrCreateSession('sess_1');
+
+    expect(set).toHaveBeenCalledTimes(1);
+
+    (await store.get('sess_1'))!.last_activity -= 61 * 1000;
+    await manager.getOrCreateSession('sess_1');
+
+    expect(set).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not hold the process open with its sweeper', () => {
+    const setInterval = vi.spyOn(globalThis, 'setInterval');
+    const manager = createManager();
+    manager.startSweeper();
+
+    expect(setInterval.mock.results[0].value.hasRef()).toBe(false);
+    manager.stopSweeper();
+    setInterval.mockRestore();
+  });
+
+  it('drops expired passports but keeps the session', async () => {
+    const manager = createManager();
+    await manager.getOrCreateSession('sess_1');
+    await manager.setPassport('sess_1', createPassport({
+      expires_at: new Date(Date.now() - 1000).toISOString(),
+    }));
+
+    const result = await manager.sweep();
+
+    expect(result).toEqual({ sessions: 0, passports: 1 });
+    expect(await manager.getPassport('sess_1')).toBeNull();
+  });
+
+  it('keeps a passport presented after the sweep listed the session', async () => {
+    const store = new InMemorySessionStore();
+    const manager = createManager(store);
+    await manager.getOrCreateSession('sess_1');
+    await manager.setPassport('sess_1', createPassport({
+      expires_at: new Date(Date.now() - 1000).toISOString(),
+    }));
+    // A shared store hands out snapshots; the agent presents a new
+    // passport between the listing and the write
+    const snapshot = structuredClone(await store.list());
+    vi.spyOn(store, 'list').mockImplementation(async () => {
+      await manager.setPassport('sess_1', createPassport({ passport_id: 'passport_2' }));
+      return snapshot;
+    });
+
+    expect(await manager.cleanupExpiredPassports()).toBe(0);
+    expect((await manager.getPassport('sess_1'))?.passport_id).toBe('passport_2');
+  });
+
+  it('keeps passports within the clock skew leeway', async () => {
+    const manager = new SessionManager({
+      safe_default: { enabled: false, auto_issue: false, permissions: [], constraints: {}, max_lifetime: 'PT1H' },
+      uniplex_api_url: 'https://mock.uniplex.dev',
+      gate_id: 'gate_test',
+      clock_skew_seconds: 60,
+    });
+    await manager.getOrCreateSession('sess_1');
+    await manager.setPassport('sess_1', createPassport({
+      expires_at: new Date(Date.now() - 30 * 1000).toISOString(),
+    }));
+
+    expect(await manager.cleanupExpiredPassports()).toBe(0);
+    expect(await manager.getPassport('sess_1')).not.toBeNull();
+  });
+});
+
+// =========================================================================
+// FILE SESSION STORE TESTS
+// =========================================================================
+
+describe('FileSessionStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'uniplex-sessions-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('keeps sessions and passports across manager instances', async () => {
+    const first = createManager(new FileSessionStore(directory));
+    await first.getOrCreateSession('mcp/session 1');
+    await first.setPassport('mcp/session 1', createPassport());
+
+    const restarted = createManager(new FileSessionStore(directory));
+    const session = await restarted.getSession('mcp/session 1');
+
+    expect(session?.passport?.passport_id).toBe('passport_1');
+    expect(await restarted.sessionHasPermission('mcp/session 1', 'flights:search')).toBe(true);
+  });
+
+  it('does not persist the derived passport index', async () => {
+    const store = new FileSessionStore(directory);
+    const manager = createManager(store);
+    await manager.getOrCreateSession('sess_1');
+    await manager.setPassport('sess_1', createPassport());
+
+    const stored = await store.get('sess_1');
+
+    expect(stored?.passport && 'claimsByKey' in stored.passport).toBe(false);
+  });
+
+  it('lists and deletes sessions', async () => {
+    const store = new FileSessionStore(directory);
+    const manager = createManager(store);
+    await manager.getOrCreateSession('sess_1');
+    await manager.getOrCreateSession('sess_2');
+
+    expect(await manager.deleteSession('sess_1')).toBe(true);
+    expect(await manager.deleteSession('sess_1')).toBe(false);
+    expect((await store.list()).map(s => s.session_id)).toEqual(['sess_2']);
+  });
+
+  it('lists nothing before the directory exists', async () => {
+    const store = new FileSessionStore(join(directory, 'missing'));
+    expect(await store.list()).toEqual([]);
+  });
+});
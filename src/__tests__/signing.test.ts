@@ -0,0 +1,185 @@
+/**
+ * Uniplex MCP Server - Signing Tests
+ *
+ * Tests for gate signing keys, attestation JWS and the gate JWKS.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import {
+  Ed25519Signer,
+  parsePrivateKey,
+  loadSigningKey,
+  createGateSigner,
+  signJws,
+  signDetachedJws,
+  decodeJwsHeader,
+  verifyJws,
+  verifyDetachedJws,
+  verifyAttestation,
+  signerToJwk,
+  publicKeyFromJwks,
+  bytesToHex,
+} from '../signing.js';
+import {
+  issueConsumptionAttestation,
+  verifyConsumptionAttestation,
+} from '../commerce.js';
+
+// =========================================================================
+// TEST FIXTURES
+// =========================================================================
+
+const SEED_HEX = '9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60';
+
+// RFC 8032 test vector 1
+const PUBLIC_KEY_HEX = 'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a';
+
+function createSigner(kid = 'gate_test#key-1'): Ed25519Signer {
+  return new Ed25519Signer(kid, parsePrivateKey(SEED_HEX));
+}
+
+// =========================================================================
+// KEY LOADING TESTS
+// =========================================================================
+
+describe('signing key loading', () => {
+  it('parses a hex seed', async () => {
+    const signer = createSigner();
+    expect(bytesToHex(await signer.getPublicKey())).toBe(PUBLIC_KEY_HEX);
+  });
+
+  it('parses a PKCS#8 PEM', async () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+    const pem = privateKey.export({ format: 'pem', type: 'pkcs8' }).toString();
+    const expectedX = publicKey.export({ format: 'jwk' }).x;
+
+    const signer = new Ed25519Signer('kid', parsePrivateKey(pem));
+    const jwk = await signerToJwk(signer);
+
+    expect(jwk.x).toBe(expectedX);
+  });
+
+  it('rejects non-Ed25519 PEM keys', () => {
+    const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const pem = privateKey.export({ format: 'pem', type: 'pkcs8' }).toString();
+
+    expect(() => parsePrivateKey(pem)).toThrow(/Ed25519/);
+  });
+
+  it('rejects malformed key material', () => {
+    expect(() => parsePrivateKey('not-a-key')).toThrow();
+  });
+
+  it('loads from the environment when no key is configured', () => {
+    const key = loadSigningKey({}, { UNIPLEX_SIGNING_KEY: SEED_HEX });
+    expect(key && bytesToHex(key)).toBe(SEED_HEX);
+  });
+
+  it('prefers an inline key over the environment', () => {
+    const other = 'ab'.repeat(32);
+    const key = loadSigningKey({ private_key: other }, { UNIPLEX_SIGNING_KEY: SEED_HEX });
+    expect(key && bytesToHex(key)).toBe(other);
+  });
+
+  it('returns undefined when nothing is configured', () => {
+    expect(loadSigningKey({}, {})).toBeUndefined();
+  });
+
+  it('uses a pluggable signer when provided', () => {
+    const signer = createSigner('kms#1');
+    expect(createGateSigner({ gate_id: 'gate_test', signer })).toBe(signer);
+  });
+
+  it('defaults kid to the gate key id', () => {
+    const signer = createGateSigner({
+      gate_id: 'gate_test',
+      signing_key: { private_key: SEED_HEX },
+    });
+    expect(signer.kid).toBe('gate_test#key-1');
+  });
+});
+
+// =========================================================================
+// JWS TESTS
+// =========================================================================
+
+describe('JWS', () => {
+  it('signs a compact JWS with EdDSA and kid', async () => {
+    const jws = await signJws('{"a":1}', createSigner());
+
+    expect(jws.split('.')).toHaveLength(3);
+    expect(decodeJwsHeader(jws)).toEqual({ alg: 'EdDSA', kid: 'gate_test#key-1' });
+    expect(verifyJws(jws, PUBLIC_KEY_HEX)).toBe(true);
+  });
+
+  it('signs a detached JWS that verifies only with the payload', async () => {
+    const jws = await signDetachedJws('{"a":1}', createSigner());
+
+    expect(jws.split('.')[1]).toBe('');
+    expect(verifyJws(jws, PUBLIC_KEY_HEX)).toBe(false);
+    expect(await verifyDetachedJws('{"a":1}', jws, PUBLIC_KEY_HEX)).toBe(true);
+    expect(await verifyDetachedJws('{"a":2}', jws, PUBLIC_KEY_HEX)).toBe(false);
+  });
+
+  it('rejects an attached JWS when a detached payload is given', async () => {
+    const jws = await signJws('{"a":1}', createSigner());
+
+    expect(verifyJws(jws, PUBLIC_KEY_HEX, '{"a":1}')).toBe(false);
+    expect(verifyJws(jws, PUBLIC_KEY_HEX, '{"forged":true}')).toBe(false);
+  });
+
+  it('rejects a signature from another key', async () => {
+    const jws = await signDetachedJws('payload', Ed25519Signer.generate('gate_test#key-1'));
+    expect(await verifyDetachedJws('payload', jws, PUBLIC_KEY_HEX)).toBe(false);
+  });
+
+  it('selects the verification key from a JWKS by kid', async () => {
+    const signer = createSigner('gate_test#key-2');
+    const jwks = { keys: [await signerToJwk(Ed25519Signer.generate('gate_test#key-1')), await signerToJwk(signer)] };
+    const jws = await signDetachedJws('payload', signer);
+
+    expect(await verifyDetachedJws('payload', jws, jwks)).toBe(true);
+    expect(publicKeyFromJwks(jwks, 'gate_test#key-2')).toBe(PUBLIC_KEY_HEX);
+    expect(publicKeyFromJwks(jwks, 'gate_test#key-9')).toBeUndefined();
+  });
+});
+
+// =========================================================================
+// ATTESTATION TESTS
+// =========================================================================
+
+describe('attestation signatures', () => {
+  it('verifies a signed verification attestation', async () => {
+    const attestation_json = JSON.stringify({ attestation_id: 'att_1', result: 'allowed' });
+    const signature = await signDetachedJws(attestation_json, createSigner());
+
+    expect(verifyAttestation({ attestation_json, signature }, PUBLIC_KEY_HEX)).toEqual({ valid: true });
+    expect(verifyAttestation({ attestation_json: attestation_json + ' ', signature }, PUBLIC_KEY_HEX).valid).toBe(false);
+  });
+
+  it('round-trips a consumption attestation with real keys', async () => {
+    const signer = createSigner();
+    const attestation = await issueConsumptionAttestation({
+      gate_id: 'gate_test',
+      agent_id: 'agent_1',
+      passport_id: 'passport_1',
+      permission_key: 'weather:forecast',
+      catalog_version: 1,
+      effective_constraints: { 'core:pricing:per_call_cents': 5 },
+      sign: (payload) => signDetachedJws(payload, signer),
+      signing_key_id: signer.kid,
+    });
+
+    expect(attestation.proof.kid).toBe('gate_test#key-1');
+
+    const jwks = { keys: [await signerToJwk(signer)] };
+    const result = await verifyConsumptionAttestation({
+      attestation,
+      gate_public_key: publicKeyFromJwks(jwks, attestation.proof.kid)!,
+      verify: verifyDetachedJws,
+    });
+
+    expect(result).toEqual({ valid: true });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Uniplex MCP Server - Spend Tests
+ *
+ * Tests for cumulative spend totals, the file spend store and
+ * core:cost:max_cumulative enforcement across tool calls.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CumulativeSpendTracker, FileSpendStore } from '../spend.js';
+import { UniplexMCPServer } from '../server.js';
+import { CachedCatalog } from '../types.js';
+
+// =========================================================================
+// SPEND TRACKER TESTS
+// =========================================================================
+
+describe('CumulativeSpendTracker', () => {
+  it('totals per permission and across the passport', async () => {
+    const tracker = new CumulativeSpendTracker();
+    await tracker.record('passport_1', 'flights:book', 300);
+    await tracker.record('passport_1', 'flights:book', 200);
+    await tracker.record('passport_1', 'hotels:book', 100);
+
+    expect(tracker.getSpent('passport_1', 'flights:book')).toBe(500);
+    expect(tracker.getSpent('passport_1')).toBe(600);
+    expect(tracker.getSpent('passport_2')).toBe(0);
+  });
+
+  it('ignores zero and negative amounts', async () => {
+    const tracker = new CumulativeSpendTracker();
+    await tracker.record('passport_1', 'flights:book', 0);
+    await tracker.record('passport_1', 'flights:book', -50);
+
+    expect(tracker.getSpent('passport_1')).toBe(0);
+  });
+
+  it('counts reservations until they are released or committed', async () => {
+    const tracker = new CumulativeSpendTracker();
+    const released = tracker.reserve('passport_1', 'flights:book', 300);
+    const committed = tracker.reserve('passport_1', 'flights:book', 200);
+
+    expect(tracker.getSpent('passport_1', 'flights:book')).toBe(500);
+
+    released.release();
+    released.release();
+    await committed.commit();
+    committed.release();
+
+    expect(tracker.getSpent('passport_1', 'flights:book')).toBe(200);
+    expect(tracker.getSpent('passport_1')).toBe(200);
+  });
+});
+
+// =========================================================================
+// FILE SPEND STORE TESTS
+// =========================================================================
+
+describe('FileSpendStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'uniplex-spend-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('keeps totals across restarts', async () => {
+    const path = join(directory, 'spend.json');
+    const first = new CumulativeSpendTracker(new FileSpendStore(path));
+    await first.record('passport_1', 'flights:book', 300);
+
+    const restarted = new CumulativeSpendTracker(new FileSpendStore(path));
+    await restarted.load();
+
+    expect(restarted.getSpent('passport_1', 'flights:book')).toBe(300);
+  });
+
+  it('does not lose concurrent increments', async () => {
+    const store = new FileSpendStore(join(directory, 'nested', 'spend.json'));
+    await Promise.all([
+      store.add('passport_1', 'flights:book', 100),
+      store.add('passport_1', 'flights:book', 200),
+      store.add('passport_1', 'flights:book', 300),
+    ]);
+
+    const [record] = await new FileSpendStore(join(directory, 'nested', 'spend.json')).list();
+
+    expect(record.total).toBe(600);
+  });
+});
+
+// =========================================================================
+// SERVER CUMULATIVE BUDGET TESTS
+// =========================================================================
+
+describe('cumulative budget across tool calls', () => {
+  const handler = vi.fn(async () => ({ confirmation: 'ABC123' }));
+  let server: UniplexMCPServer;
+
+  beforeEach(async () => {
+    handler.mockClear();
+    server = new UniplexMCPServer({
+      uniplex_api_url: 'https://mock.uniplex.dev',
+      gate_id: 'gate_test',
+      signing_key: { private_key: '11'.repeat(32) },
+      safe_default: { enabled: false, auto_issue: false, permissions: [], constraints: {}, max_lifetime: 'PT1H' },
+      trusted_issuers: [],
+      tools: [{
+        name: 'buy_ticket',
+        permission_key: 'tickets:buy',
+        inputSchema: { type: 'object' },
+        constraints: [{ key: 'core:cost:price', source: 'input', input_path: '$.price', transform: 'dollars_to_cents' }],
+        handler,
+      }],
+      test_mode: { enabled: true },
+    });
+
+    const permissions = {
+      'tickets:buy': {
+        permission_key: 'tickets:buy',
+        display_name: 'Buy Tickets',
+        risk_level: 'high' as const,
+        constraints: { 'core:cost:max_cumulative': 10000 },
+      },
+    };
+    const catalog: CachedCatalog = {
+      gate_id: 'gate_test',
+      current: { version: 1, permissionsByKey: permissions, published_at: new Date().toISOString() },
+      versions: {},
+      min_compatible_version: 1,
+      cached_at: Date.now(),
+      permissionsByKey: permissions,
+    };
+    server.setTestCatalog(catalog);
+
+    await server.setTestSession({ sessionId: 'test', permissions: ['tickets:buy'] });
+  });
+
+  it('blocks the purchase that crosses the budget', async () => {
+    const buy = () => server.callTool({ name: 'buy_ticket', arguments: { price: '40.00' } });
+
+    expect((await buy()).isError).toBe(false);
+    expect((await buy()).isError).toBe(false);
+
+    const third = await buy();
+
+    expect(third.isError).toBe(true);
+    expect(third.content[0].text).toContain('Cumulative spend limit exceeded');
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not count calls whose handler failed', async () => {
+    handler.mockRejectedValueOnce(new Error('Sold out'));
+
+    await expect(server.callTool({ name: 'buy_ticket', arguments: { price: '80.00' } })).rejects.toThrow('Sold out');
+
+    expect((await server.callTool({ name: 'buy_ticket', arguments: { price: '80.00' } })).isError).toBe(false);
+  });
+
+  it('holds the budget for calls that are still running', async () => {
+    let finish!: () => void;
+    const running = new Promise<void>(resolve => { finish = resolve; });
+    handler.mockImplementation(async () => {
+      await running;
+      return { confirmation: 'ABC123' };
+    });
+
+    const calls = [1, 2, 3].map(() => server.callTool({ name: 'buy_ticket', arguments: { price: '40.00' } }));
+    finish();
+    const results = await Promise.all(calls);
+
+    expect(results.map(r => r.isError)).toEqual([false, false, true]);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+});
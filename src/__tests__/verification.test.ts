@@ -7,16 +7,33 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import {
   verifyLocally,
+  validatePassport,
   InMemoryRateLimiter,
   buildPassportIndex,
+  resolvePermission,
+  hasPermission,
+  getPermissionConstraints,
   validateConstraints,
   mergeConstraints,
+  canonicalPassportPayload,
+  verifySignature,
+  verifySignatureSync,
+  decodePassportJws,
+  encodePassportAsJws,
+  TRUST_NETWORK_AUDIENCE_PREFIX,
 } from '../verification.js';
+import { CumulativeSpendTracker } from '../spend.js';
+import { base64UrlEncode, bytesToHex, Ed25519Signer } from '../signing.js';
 import {
   Passport,
+  IssuerJwk,
+  IssuerKeyset,
+  PassportValidityConfig,
   CachedCatalog,
   CatalogPermission,
+  RateLimiter,
   DenyReason,
+  GateDenyReason,
   OBLIGATION_TOKENS,
   CONSTRAINT_KEYS,
   type AnonymousAccessPolicy,
@@ -152,6 +169,65 @@ describe('verifyLocally', () => {
       expect(result.decision).toBe('deny');
       expect(result.denial?.code).toBe(DenyReason.ISSUER_NOT_ALLOWED);
     });
+
+    it('denies with ISSUER_NOT_ALLOWED for an untrusted issuer with a known key', () => {
+      const result = verifyLocally({
+        passport,
+        catalog,
+        revocationList,
+        issuerKeys,
+        issuerTrust: { 'issuer_other': 0 },
+        rateLimiter,
+        action: 'flights:search',
+        context: {},
+        skipSignatureVerification: true,
+      });
+
+      expect(result.allowed).toBe(false);
+      expect(result.denial?.code).toBe(DenyReason.ISSUER_NOT_ALLOWED);
+      expect(result.denial?.message).toContain('not trusted');
+    });
+
+    it('allows a trusted issuer', () => {
+      const result = verifyLocally({
+        passport,
+        catalog,
+        revocationList,
+        issuerKeys,
+        issuerTrust: { 'issuer_trusted': 0 },
+        rateLimiter,
+        action: 'flights:search',
+        context: {},
+        skipSignatureVerification: true,
+      });
+
+      expect(result.allowed).toBe(true);
+    });
+
+    it('enforces per-permission trust_level_required', () => {
+      catalog.permissionsByKey['flights:book'].trust_level_required = 2;
+
+      const weak = verifyLocally({
+        passport, catalog, revocationList, issuerKeys,
+        issuerTrust: { 'issuer_trusted': 1 },
+        rateLimiter,
+        action: 'flights:book', context: {}, skipSignatureVerification: true,
+      });
+
+      expect(weak.allowed).toBe(false);
+      expect(weak.denial?.code).toBe(DenyReason.ISSUER_NOT_ALLOWED);
+
+      const strong = verifyLocally({
+        passport, catalog, revocationList, issuerKeys,
+        issuerTrust: { 'issuer_trusted': 2 },
+        rateLimiter,
+        action: 'flights:book',
+        context: { 'core:cost:max_per_action': 50000 },
+        skipSignatureVerification: true,
+      });
+
+      expect(strong.allowed).toBe(true);
+    });
   });
 
   // Step 3: Expiration check
@@ -175,6 +251,98 @@ describe('verifyLocally', () => {
       expect(result.decision).toBe('deny');
       expect(result.denial?.code).toBe(DenyReason.PASSPORT_EXPIRED);
     });
+
+    describe('validity window', () => {
+      const now = Date.parse('2026-06-01T12:00:00Z');
+      const at = (offsetSeconds: number) => new Date(now + offsetSeconds * 1000).toISOString();
+
+      function verifyAt(overrides: Partial<Passport>, validity?: PassportValidityConfig) {
+        return verifyLocally({
+          passport: createMockPassport({ issued_at: at(-60), expires_at: at(3600), ...overrides }),
+          catalog,
+          revocationList,
+          issuerKeys,
+          rateLimiter,
+          action: 'flights:search',
+          context: {},
+          skipSignatureVerification: true,
+          validity,
+          now,
+        });
+      }
+
+      it('uses the injected clock', () => {
+        expect(verifyAt({}).allowed).toBe(true);
+        expect(verifyAt({ expires_at: at(-1) }).denial?.code).toBe(DenyReason.PASSPORT_EXPIRED);
+      });
+
+      it('allows clock skew on expires_at, not_before and issued_at', () => {
+        const skew = { clock_skew_seconds: 30 };
+
+        expect(verifyAt({ expires_at: at(-20) }, skew).allowed).toBe(true);
+        expect(verifyAt({ expires_at: at(-40) }, skew).denial?.code).toBe(DenyReason.PASSPORT_EXPIRED);
+        expect(verifyAt({ not_before: at(20) }, skew).allowed).toBe(true);
+        expect(verifyAt({ issued_at: at(20) }, skew).allowed).toBe(true);
+      });
+
+      it('denies passports that are not yet valid', () => {
+        const notBefore = verifyAt({ not_before: at(60) });
+        const futureIssued = verifyAt({ issued_at: at(60) });
+
+        expect(notBefore.denial?.code).toBe(GateDenyReason.PASSPORT_NOT_YET_VALID);
+        expect(futureIssued.denial?.code).toBe(GateDenyReason.PASSPORT_NOT_YET_VALID);
+        expect(futureIssued.denial?.message).toContain('in the future');
+      });
+
+      it('enforces the max lifetime', () => {
+        expect(verifyAt({}, { max_lifetime_minutes: 90 }).allowed).toBe(true);
+        expect(verifyAt({ expires_at: at(24 * 3600) }, { max_lifetime_minutes: 90 }).denial?.code)
+          .toBe(GateDenyReason.PASSPORT_LIFETIME_EXCEEDED);
+      });
+
+      it('denies unparseable expiry timestamps', () => {
+        expect(verifyAt({ expires_at: 'never' }).denial?.code).toBe(DenyReason.PASSPORT_EXPIRED);
+      });
+    });
+  });
+
+  describe('Audience binding', () => {
+    function verifyFor(overrides: Partial<Passport>, audiences?: string[]) {
+      return verifyLocally({
+        passport: createMockPassport(overrides),
+        catalog,
+        revocationList,
+        issuerKeys,
+        rateLimiter,
+        action: 'flights:search',
+        context: {},
+        skipSignatureVerification: true,
+        audiences,
+      });
+    }
+
+    it('denies passports minted for another gate', () => {
+      const result = verifyFor({ gate_id: 'gate_other' }, ['gate_test']);
+
+      expect(result.denial?.code).toBe(GateDenyReason.AUDIENCE_MISMATCH);
+      expect(result.denial?.message).toBe('Passport was issued for gate_other, not gate_test');
+    });
+
+    it('accepts gate lists and trust network audiences', () => {
+      const audiences = ['gate_test', `${TRUST_NETWORK_AUDIENCE_PREFIX}net_travel`];
+
+      expect(verifyFor({ gate_id: 'gate_a', audience: ['gate_test'] }, audiences).allowed).toBe(true);
+      expect(verifyFor({ gate_id: 'gate_a', audience: ['trust_network:net_travel'] }, audiences).allowed).toBe(true);
+      expect(verifyFor({ gate_id: 'gate_a', audience: ['trust_network:net_other'] }, audiences).allowed).toBe(false);
+    });
+
+    it('skips the check when no audiences are given', () => {
+      expect(verifyFor({ gate_id: 'gate_other' }).allowed).toBe(true);
+    });
+
+    it('signs the audience', () => {
+      expect(canonicalPassportPayload(createMockPassport({ audience: ['gate_b'] }))).toContain('"audience":["gate_b"]');
+    });
   });
 
   // Step 4: Revocation check
@@ -197,6 +365,46 @@ describe('verifyLocally', () => {
       expect(result.decision).toBe('deny');
       expect(result.denial?.code).toBe(DenyReason.PASSPORT_REVOKED);
     });
+
+    it('denies fail_closed actions when the revocation list is stale', () => {
+      const result = verifyLocally({
+        passport, catalog, revocationList, issuerKeys, rateLimiter,
+        action: 'flights:search',
+        context: {},
+        cacheFreshness: { catalogFresh: true, revocationFresh: false, failMode: 'fail_closed' },
+        skipSignatureVerification: true,
+      });
+
+      expect(result.allowed).toBe(false);
+      expect(result.denial?.code).toBe(GateDenyReason.REVOCATION_LIST_STALE);
+    });
+
+    it('allows fail_open actions on stale caches without confidence', () => {
+      const result = verifyLocally({
+        passport, catalog, revocationList, issuerKeys, rateLimiter,
+        action: 'flights:search',
+        context: {},
+        cacheFreshness: { catalogFresh: false, revocationFresh: false, failMode: 'fail_open' },
+        skipSignatureVerification: true,
+      });
+
+      expect(result.allowed).toBe(true);
+      expect(result.confident).toBe(false);
+      expect(result.stale_caches).toEqual(['catalog', 'revocation_list']);
+    });
+
+    it('is confident when caches are fresh', () => {
+      const result = verifyLocally({
+        passport, catalog, revocationList, issuerKeys, rateLimiter,
+        action: 'flights:search',
+        context: {},
+        cacheFreshness: { catalogFresh: true, revocationFresh: true, failMode: 'fail_closed' },
+        skipSignatureVerification: true,
+      });
+
+      expect(result.confident).toBe(true);
+      expect(result.stale_caches).toBeUndefined();
+    });
   });
 
   // Step 5: Catalog version resolution
@@ -222,6 +430,27 @@ describe('verifyLocally', () => {
       expect(result.decision).toBe('deny');
       expect(result.denial?.code).toBe(DenyReason.CATALOG_VERSION_DEPRECATED);
     });
+
+    it('reports the pinned catalog version and its content hash on permit', () => {
+      catalog.current = { ...catalog.current, version: 3, content_hash: 'hash_v3' };
+      catalog.versions = { 2: { ...catalog.current, version: 2, content_hash: 'hash_v2' } };
+      passport = createMockPassport({ catalog_version_pin: { 'gate_test': 2 } });
+
+      const result = verifyLocally({
+        passport,
+        catalog,
+        revocationList,
+        issuerKeys,
+        rateLimiter,
+        action: 'flights:search',
+        context: {},
+        skipSignatureVerification: true,
+      });
+
+      expect(result.allowed).toBe(true);
+      expect(result.catalog_version).toBe(2);
+      expect(result.catalog_content_hash).toBe('hash_v2');
+    });
   });
 
   // Step 6: Permission in catalog
@@ -283,6 +512,51 @@ describe('verifyLocally', () => {
       expect(result.denial?.code).toBe(DenyReason.PERMISSION_DENIED);
       expect(result.denial?.upgrade_template).toBe('travel-booker');
     });
+
+    it('allows actions covered by a wildcard grant', () => {
+      passport = createMockPassport({
+        permissions: [{ permission_key: 'flights:*', constraints: {} }],
+      });
+
+      const result = verifyLocally({
+        passport, catalog, revocationList, issuerKeys, rateLimiter,
+        action: 'flights:search', context: {}, skipSignatureVerification: true,
+      });
+
+      expect(result.allowed).toBe(true);
+    });
+
+    it('does not let a wildcard cover other namespaces', () => {
+      passport = createMockPassport({
+        permissions: [{ permission_key: 'flights:*', constraints: {} }],
+      });
+
+      const result = verifyLocally({
+        passport, catalog, revocationList, issuerKeys, rateLimiter,
+        action: 'data:read', context: {}, skipSignatureVerification: true,
+      });
+
+      expect(result.denial?.code).toBe(DenyReason.PERMISSION_DENIED);
+    });
+
+    it('applies exact-grant constraints over wildcard constraints', () => {
+      passport = createMockPassport({
+        permissions: [
+          { permission_key: 'flights:*', constraints: { 'core:cost:max_per_action': 1000000 } },
+          { permission_key: 'flights:book', constraints: { 'core:cost:max_per_action': 100000 } },
+        ],
+      });
+
+      const result = verifyLocally({
+        passport, catalog, revocationList, issuerKeys, rateLimiter,
+        action: 'flights:book',
+        context: { 'core:cost:max_per_action': 150000 },
+        skipSignatureVerification: true,
+      });
+
+      expect(result.allowed).toBe(false);
+      expect(result.denial?.code).toBe(DenyReason.CONSTRAINT_VIOLATED);
+    });
   });
 
   // Step 8: Constraint validation
@@ -317,6 +591,96 @@ describe('verifyLocally', () => {
 
       expect(result.decision).not.toBe('deny');
     });
+
+    it('denies when a catalog-required constraint has no value', () => {
+      const result = verifyLocally({
+        passport,
+        catalog,
+        revocationList,
+        issuerKeys,
+        rateLimiter,
+        action: 'flights:book',
+        context: {},
+        skipSignatureVerification: true,
+      });
+
+      expect(result.allowed).toBe(false);
+      expect(result.denial?.code).toBe(DenyReason.CONSTRAINT_VIOLATED);
+      expect(result.denial?.message).toContain('core:cost:max_per_action');
+      expect(result.reason_codes).toEqual(['missing_context']);
+    });
+
+    it('denies when a tool-required constraint has no value', () => {
+      const result = verifyLocally({
+        passport,
+        catalog,
+        revocationList,
+        issuerKeys,
+        rateLimiter,
+        action: 'flights:search',
+        context: { 'core:scope:destination': null },
+        requiredConstraints: ['core:scope:destination'],
+        skipSignatureVerification: true,
+      });
+
+      expect(result.allowed).toBe(false);
+      expect(result.denial?.code).toBe(DenyReason.CONSTRAINT_VIOLATED);
+    });
+
+    it('allows when tool-required constraints are present', () => {
+      const result = verifyLocally({
+        passport,
+        catalog,
+        revocationList,
+        issuerKeys,
+        rateLimiter,
+        action: 'flights:search',
+        context: { 'core:scope:destination': 'SFO' },
+        requiredConstraints: ['core:scope:destination'],
+        skipSignatureVerification: true,
+      });
+
+      expect(result.allowed).toBe(true);
+    });
+
+    it('denies the call that would cross a cumulative permission budget', async () => {
+      passport = createMockPassport({
+        permissions: [
+          { permission_key: 'flights:search', constraints: { 'core:cost:max_cumulative': 1000 } },
+        ],
+      });
+      const spendTracker = new CumulativeSpendTracker();
+      const verify = (amount: number) => verifyLocally({
+        passport, catalog, revocationList, issuerKeys, rateLimiter,
+        action: 'flights:search', context: { amount_canonical: amount }, spendTracker,
+        skipSignatureVerification: true,
+      });
+
+      expect(verify(1000).allowed).toBe(true);
+
+      await spendTracker.record(passport.passport_id, 'flights:search', 600);
+      const result = verify(500);
+
+      expect(result.allowed).toBe(false);
+      expect(result.constraint_decision).toBe('BLOCK');
+      expect(result.reason_codes).toEqual(['cumulative_cost_exceeded']);
+      expect(verify(400).allowed).toBe(true);
+    });
+
+    it('denies when the passport-wide cumulative budget is spent', async () => {
+      passport = createMockPassport({ constraints: { 'core:cost:max_cumulative': 1000 } });
+      const spendTracker = new CumulativeSpendTracker();
+      await spendTracker.record(passport.passport_id, 'flights:book', 900);
+
+      const result = verifyLocally({
+        passport, catalog, revocationList, issuerKeys, rateLimiter,
+        action: 'flights:search', context: { amount_canonical: 200 }, spendTracker,
+        skipSignatureVerification: true,
+      });
+
+      expect(result.allowed).toBe(false);
+      expect(result.denial?.message).toContain('passport');
+    });
   });
 
   // Step 9: Rate limit check
@@ -343,6 +707,76 @@ describe('verifyLocally', () => {
       expect(result.decision).toBe('deny');
       expect(result.denial?.code).toBe(DenyReason.RATE_LIMITED);
     });
+
+    it('applies rate limits from each passport\'s constraints', () => {
+      const perMinute = createMockPassport({
+        passport_id: 'passport_minute',
+        permissions: [{ permission_key: 'flights:search', constraints: { 'core:rate:max_per_minute': 1 } }],
+      });
+      const perDay = createMockPassport({
+        passport_id: 'passport_day',
+        permissions: [{ permission_key: 'flights:search', constraints: { 'core:rate:max_per_day': 2 } }],
+      });
+      const verify = (p: Passport) => verifyLocally({
+        passport: p, catalog, revocationList, issuerKeys, rateLimiter,
+        action: 'flights:search', context: {}, skipSignatureVerification: true,
+      });
+
+      expect(verify(perMinute).allowed).toBe(true);
+      expect(verify(perMinute).denial?.code).toBe(DenyReason.RATE_LIMITED);
+
+      expect(verify(perDay).allowed).toBe(true);
+      expect(verify(perDay).allowed).toBe(true);
+      expect(verify(perDay).denial?.code).toBe(DenyReason.RATE_LIMITED);
+    });
+
+    it('reports remaining quota and Retry-After', () => {
+      passport = createMockPassport({
+        permissions: [{ permission_key: 'flights:search', constraints: { 'core:rate:max_per_minute': 2 } }],
+      });
+      const verify = () => verifyLocally({
+        passport, catalog, revocationList, issuerKeys, rateLimiter,
+        action: 'flights:search', context: {}, skipSignatureVerification: true,
+      });
+
+      expect(verify().rate_limit).toMatchObject({ limit: 2, remaining: 1, window_seconds: 60 });
+      verify();
+      const denied = verify();
+
+      expect(denied.denial?.code).toBe(DenyReason.RATE_LIMITED);
+      expect(denied.denial?.retry_after_seconds).toBe(60);
+      expect(denied.rate_limit?.remaining).toBe(0);
+    });
+
+    it('applies the tighter of catalog and passport rate limits', () => {
+      catalog.permissionsByKey['flights:search'].constraints = { 'core:rate:max_per_hour': 1 };
+      passport = createMockPassport({
+        permissions: [{ permission_key: 'flights:search', constraints: { 'core:rate:max_per_hour': 5 } }],
+      });
+      const verify = () => verifyLocally({
+        passport, catalog, revocationList, issuerKeys, rateLimiter,
+        action: 'flights:search', context: {}, skipSignatureVerification: true,
+      });
+
+      expect(verify().allowed).toBe(true);
+      expect(verify().denial?.code).toBe(DenyReason.RATE_LIMITED);
+    });
+
+    it('checks then increments limiters without tryConsume', () => {
+      const legacyLimiter: RateLimiter = {
+        check: (action, passportId, limits) => rateLimiter.check(action, passportId, limits),
+        increment: (action, passportId, limits) => rateLimiter.increment(action, passportId, limits),
+        reset: (action, passportId) => rateLimiter.reset(action, passportId),
+      };
+      rateLimiter.setLimit('flights:search', 1, 60000);
+      const verify = () => verifyLocally({
+        passport, catalog, revocationList, issuerKeys, rateLimiter: legacyLimiter,
+        action: 'flights:search', context: {}, skipSignatureVerification: true,
+      });
+
+      expect(verify().allowed).toBe(true);
+      expect(verify().denial?.code).toBe(DenyReason.RATE_LIMITED);
+    });
   });
 
   // Three-tier decision model
@@ -398,6 +832,26 @@ describe('verifyLocally', () => {
       expect(result.obligations).toContain(OBLIGATION_TOKENS.REQUIRE_APPROVAL);
       expect(result.denial?.code).toBe(DenyReason.APPROVAL_REQUIRED);
     });
+
+    it('SUSPEND proceeds when a human approval was granted', () => {
+      passport = createMockPassport({
+        permissions: [
+          {
+            permission_key: 'flights:search',
+            constraints: { 'core:approval:required': true },
+          },
+        ],
+      });
+
+      const result = verifyLocally({
+        passport, catalog, revocationList, issuerKeys, rateLimiter,
+        action: 'flights:search', context: {}, approvalGranted: true,
+        skipSignatureVerification: true,
+      });
+
+      expect(result.allowed).toBe(true);
+      expect(result.decision).toBe('permit');
+    });
   });
 
   // BLOCK > SUSPEND > PERMIT precedence
@@ -638,6 +1092,24 @@ describe('InMemoryRateLimiter', () => {
     expect(limiter.check('action', 'passport_2')).toBe(true);
   });
 
+  it('requires room in every window', () => {
+    limiter.setLimit('action', 10, 60000);
+    const limits = [{ max: 1, windowMs: 24 * 60 * 60 * 1000 }];
+
+    limiter.increment('action', 'passport_1', limits);
+
+    expect(limiter.check('action', 'passport_1')).toBe(true);
+    expect(limiter.check('action', 'passport_1', limits)).toBe(false);
+  });
+
+  it('uses the tighter limit for the same window', () => {
+    limiter.setLimit('action', 1, 60000);
+
+    limiter.increment('action', undefined, [{ max: 5, windowMs: 60000 }]);
+
+    expect(limiter.check('action', undefined, [{ max: 5, windowMs: 60000 }])).toBe(false);
+  });
+
   it('resets after window expires', async () => {
     limiter.setLimit('action', 1, 10); // 10ms window
 
@@ -663,6 +1135,18 @@ describe('buildPassportIndex', () => {
     expect(passport.claimsByKey['unknown:permission']).toBeUndefined();
   });
 
+  it('indexes wildcard grants by prefix', () => {
+    const passport = createMockPassport({
+      permissions: [
+        { permission_key: 'flights:*', constraints: {} },
+        { permission_key: '*', constraints: {} },
+      ],
+    });
+
+    expect(passport.wildcardClaims?.['flights:']).toBeDefined();
+    expect(passport.wildcardClaims?.['']).toBeDefined();
+  });
+
   it('preserves permission constraints in index', () => {
     const passport = createMockPassport();
 
@@ -672,6 +1156,367 @@ describe('buildPassportIndex', () => {
   });
 });
 
+describe('resolvePermission', () => {
+  const passport = createMockPassport({
+    permissions: [
+      { permission_key: 'flights:*', constraints: { level: 'namespace' } },
+      { permission_key: 'flights:booking:*', constraints: { level: 'booking' } },
+      { permission_key: 'flights:booking:cancel', constraints: { level: 'exact' } },
+    ],
+  });
+
+  it('prefers the exact grant', () => {
+    expect(resolvePermission(passport, 'flights:booking:cancel')?.constraints.level).toBe('exact');
+  });
+
+  it('prefers the most specific wildcard', () => {
+    expect(resolvePermission(passport, 'flights:booking:create')?.constraints.level).toBe('booking');
+    expect(resolvePermission(passport, 'flights:search')?.constraints.level).toBe('namespace');
+  });
+
+  it('matches wildcards at any depth', () => {
+    expect(resolvePermission(passport, 'flights:seats:map:view')?.constraints.level).toBe('namespace');
+  });
+
+  it('does not match the bare namespace or other namespaces', () => {
+    expect(resolvePermission(passport, 'flights')).toBeUndefined();
+    expect(resolvePermission(passport, 'hotels:search')).toBeUndefined();
+  });
+
+  it('matches everything with a global wildcard', () => {
+    const global = createMockPassport({
+      permissions: [{ permission_key: '*', constraints: {} }],
+    });
+
+    expect(resolvePermission(global, 'hotels:search')).toBeDefined();
+    expect(resolvePermission(global, 'admin')).toBeDefined();
+  });
+
+  it('is used by hasPermission and getPermissionConstraints', () => {
+    expect(hasPermission(passport, 'flights:search')).toBe(true);
+    expect(hasPermission(passport, 'hotels:search')).toBe(false);
+    expect(getPermissionConstraints(passport, 'flights:booking:create')).toEqual({ level: 'booking' });
+  });
+});
+
+// =========================================================================
+// PASSPORT PRESENTATION TESTS
+// =========================================================================
+
+describe('validatePassport', () => {
+  const issuerKeys = { 'issuer_trusted': '0'.repeat(64) };
+
+  it('accepts a valid passport for this gate', () => {
+    const result = validatePassport({
+      passport: createMockPassport(),
+      issuerKeys,
+      revocationList: new Set(),
+      gateId: 'gate_test',
+      skipSignatureVerification: true,
+    });
+
+    expect(result.allowed).toBe(true);
+  });
+
+  it('rejects a passport issued for a different gate', () => {
+    const result = validatePassport({
+      passport: createMockPassport({ gate_id: 'gate_other' }),
+      issuerKeys,
+      revocationList: new Set(),
+      gateId: 'gate_test',
+      skipSignatureVerification: true,
+    });
+
+    expect(result.allowed).toBe(false);
+    expect(result.denial?.code).toBe(GateDenyReason.AUDIENCE_MISMATCH);
+  });
+
+  it('accepts any listed audience and skips the check on request', () => {
+    const base = { issuerKeys, revocationList: new Set<string>(), gateId: 'gate_test', skipSignatureVerification: true };
+    const multiGate = createMockPassport({ gate_id: 'gate_other', audience: ['gate_test'] });
+    const elsewhere = createMockPassport({ gate_id: 'gate_other' });
+
+    expect(validatePassport({ ...base, passport: multiGate }).allowed).toBe(true);
+    expect(validatePassport({ ...base, passport: elsewhere, audiences: ['gate_test', 'gate_other'] }).allowed).toBe(true);
+    expect(validatePassport({ ...base, passport: elsewhere, skipAudienceCheck: true }).allowed).toBe(true);
+  });
+
+  it('runs issuer, expiry and revocation checks', () => {
+    const base = { issuerKeys, gateId: 'gate_test', skipSignatureVerification: true };
+
+    expect(validatePassport({
+      ...base,
+      passport: createMockPassport({ issuer_id: 'issuer_unknown' }),
+      revocationList: new Set(),
+    }).denial?.code).toBe(DenyReason.ISSUER_NOT_ALLOWED);
+
+    expect(validatePassport({
+      ...base,
+      passport: createMockPassport({ expires_at: new Date(Date.now() - 1000).toISOString() }),
+      revocationList: new Set(),
+    }).denial?.code).toBe(DenyReason.PASSPORT_EXPIRED);
+
+    expect(validatePassport({
+      ...base,
+      passport: createMockPassport(),
+      revocationList: new Set(['passport_test_123']),
+    }).denial?.code).toBe(DenyReason.PASSPORT_REVOKED);
+  });
+
+  it('rejects passports from untrusted issuers', () => {
+    const result = validatePassport({
+      passport: createMockPassport(),
+      issuerKeys,
+      issuerTrust: {},
+      revocationList: new Set(),
+      gateId: 'gate_test',
+      skipSignatureVerification: true,
+    });
+
+    expect(result.denial?.code).toBe(DenyReason.ISSUER_NOT_ALLOWED);
+  });
+
+  it('verifies the signature unless skipped', () => {
+    const result = validatePassport({
+      passport: createMockPassport(),
+      issuerKeys,
+      revocationList: new Set(),
+      gateId: 'gate_test',
+    });
+
+    expect(result.allowed).toBe(false);
+    expect(result.denial?.code).toBe(DenyReason.INVALID_SIGNATURE);
+  });
+});
+
+// =========================================================================
+// CANONICAL PASSPORT SIGNATURE TESTS (RFC 8785)
+// =========================================================================
+
+describe('canonical passport signatures', () => {
+  // Cross-SDK vector: RFC 8032 test key 1 signing the JCS form below.
+  // Field order mirrors an issuer that serializes alphabetically-unsorted dicts.
+  const issuerPublicKey = 'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a';
+  const canonical =
+    '{"agent_id":"agent_1","constraints":{"core:cost:max_per_action":50000,"core:rate_limit:per_minute":10},' +
+    '"expires_at":"2099-01-01T00:00:00Z","gate_id":"gate_test","issued_at":"2026-01-01T00:00:00Z",' +
+    '"issuer_id":"issuer_trusted","passport_id":"passport_jcs_1","permissions":[' +
+    '{"constraints":{"core:cost:max_per_action":25000},"permission_key":"flights:book"},' +
+    '{"constraints":{},"permission_key":"flights:search"}]}';
+
+  const passport: Omit<Passport, 'claimsByKey'> = {
+    signature:
+      'b10807f5c86522476145278141dc3f69bd3371dc43e3ec097808fab6131fad47' +
+      'fb1355879f3549d74cba91b606520eba283d0c3d1abbf48ca905d526bb4bab0d',
+    permissions: [
+      { constraints: { 'core:cost:max_per_action': 25000.0 }, permission_key: 'flights:book' },
+      { permission_key: 'flights:search', constraints: {} },
+    ],
+    passport_id: 'passport_jcs_1',
+    issued_at: '2026-01-01T00:00:00Z',
+    expires_at: '2099-01-01T00:00:00Z',
+    constraints: { 'core:rate_limit:per_minute': 10, 'core:cost:max_per_action': 5e4 },
+    issuer_id: 'issuer_trusted',
+    gate_id: 'gate_test',
+    agent_id: 'agent_1',
+  };
+
+  it('serializes the signed fields in JCS form regardless of key order', () => {
+    expect(canonicalPassportPayload(passport)).toBe(canonical);
+  });
+
+  it('verifies a passport signed over the canonical form', async () => {
+    expect(verifySignatureSync(passport, issuerPublicKey)).toBe(true);
+    expect(await verifySignature(passport, issuerPublicKey)).toBe(true);
+  });
+
+  it('rejects a tampered passport', () => {
+    const tampered = { ...passport, constraints: { 'core:cost:max_per_action': 50001 } };
+    expect(verifySignatureSync(tampered, issuerPublicKey)).toBe(false);
+  });
+
+  it('passes full validation with a real issuer key', () => {
+    const result = validatePassport({
+      passport: buildPassportIndex(passport),
+      issuerKeys: { 'issuer_trusted': issuerPublicKey },
+      revocationList: new Set(),
+      gateId: 'gate_test',
+    });
+
+    expect(result.allowed).toBe(true);
+  });
+});
+
+// =========================================================================
+// ISSUER KEY ROTATION TESTS
+// =========================================================================
+
+describe('issuer key rotation', () => {
+  const oldKey = Ed25519Signer.generate('issuer_trusted#2025');
+  const newKey = Ed25519Signer.generate('issuer_trusted#2026');
+  let keyset: IssuerKeyset;
+
+  async function jwk(signer: Ed25519Signer, extra: Partial<IssuerJwk> = {}): Promise<IssuerJwk> {
+    return { kty: 'OKP', crv: 'Ed25519', x: base64UrlEncode(await signer.getPublicKey()), kid: signer.kid, ...extra };
+  }
+
+  async function signedPassport(signer: Ed25519Signer, kid: string | undefined = signer.kid): Promise<Passport> {
+    const { claimsByKey, wildcardClaims, ...unsigned } = createMockPassport({ kid });
+    const signature = await signer.sign(new TextEncoder().encode(canonicalPassportPayload(unsigned)));
+    return buildPassportIndex({ ...unsigned, signature: bytesToHex(signature) });
+  }
+
+  function validate(passport: Passport, key: IssuerKeyset = keyset) {
+    return validatePassport({
+      passport,
+      issuerKeys: { 'issuer_trusted': key },
+      revocationList: new Set(),
+      gateId: 'gate_test',
+    });
+  }
+
+  beforeEach(async () => {
+    keyset = { keys: [await jwk(oldKey, { status: 'retiring' }), await jwk(newKey)] };
+  });
+
+  it('accepts passports signed by either key during the overlap', async () => {
+    expect(validate(await signedPassport(oldKey)).allowed).toBe(true);
+    expect(validate(await signedPassport(newKey)).allowed).toBe(true);
+  });
+
+  it('selects the key by kid', async () => {
+    const mislabeled = await signedPassport(oldKey, newKey.kid);
+
+    expect(validate(mislabeled).denial?.code).toBe(DenyReason.INVALID_SIGNATURE);
+  });
+
+  it('tries every usable key for passports without a kid', async () => {
+    expect(validate(await signedPassport(oldKey, undefined)).allowed).toBe(true);
+  });
+
+  it('rejects revoked keys and keys outside their validity window', async () => {
+    const passport = await signedPassport(oldKey);
+    const withOldKey = async (extra: Partial<IssuerJwk>) => ({ keys: [await jwk(oldKey, extra), await jwk(newKey)] });
+
+    const revoked = validate(passport, await withOldKey({ status: 'revoked' }));
+    const expired = validate(passport, await withOldKey({ not_after: new Date(Date.now() - 1000).toISOString() }));
+    const notYet = validate(passport, await withOldKey({ not_before: new Date(Date.now() + 60000).toISOString() }));
+
+    expect(revoked.denial?.message).toBe('No valid key issuer_trusted#2025 for issuer issuer_trusted');
+    expect(expired.denial?.code).toBe(DenyReason.INVALID_SIGNATURE);
+    expect(notYet.denial?.code).toBe(DenyReason.INVALID_SIGNATURE);
+  });
+
+  it('checks key validity windows at the verification time', async () => {
+    const passport = await signedPassport(oldKey);
+    const rotated = { keys: [await jwk(oldKey, { not_after: '2026-01-01T00:00:00.000Z' }), await jwk(newKey)] };
+
+    expect(verifySignatureSync(passport, rotated, Date.parse('2025-12-31T00:00:00.000Z'))).toBe(true);
+    expect(verifySignatureSync(passport, rotated, Date.parse('2026-01-02T00:00:00.000Z'))).toBe(false);
+    expect(await verifySignature(passport, rotated, Date.parse('2025-12-31T00:00:00.000Z'))).toBe(true);
+    expect(await verifySignature(passport, rotated, Date.parse('2026-01-02T00:00:00.000Z'))).toBe(false);
+  });
+
+  it('signs the kid', async () => {
+    const passport = await signedPassport(oldKey);
+
+    expect(canonicalPassportPayload(passport)).toContain('"kid":"issuer_trusted#2025"');
+  });
+});
+
+// =========================================================================
+// JWS PASSPORT TESTS
+// =========================================================================
+
+describe('JWS passports', () => {
+  const issuer = Ed25519Signer.generate('issuer_trusted#2026');
+  let issuerPublicKey: string;
+
+  // JWT NumericDates are whole seconds
+  const issuedAt = new Date(Math.floor(Date.now() / 1000) * 1000);
+  const unsigned = {
+    passport_id: 'passport_jws_1',
+    issuer_id: 'issuer_trusted',
+    agent_id: 'agent_test',
+    gate_id: 'gate_test',
+    permissions: [{ permission_key: 'flights:search', constraints: {} }],
+    constraints: { 'core:rate_limit:per_minute': 10 },
+    expires_at: new Date(issuedAt.getTime() + 3600_000).toISOString(),
+    issued_at: issuedAt.toISOString(),
+  };
+
+  function validate(passport: Omit<Passport, 'claimsByKey'>) {
+    return validatePassport({
+      passport: buildPassportIndex(passport),
+      issuerKeys: { 'issuer_trusted': issuerPublicKey },
+      revocationList: new Set(),
+      gateId: 'gate_test',
+    });
+  }
+
+  beforeEach(async () => {
+    issuerPublicKey = bytesToHex(await issuer.getPublicKey());
+  });
+
+  it('round-trips a passport through a compact JWS', async () => {
+    const jws = await encodePassportAsJws(unsigned, issuer);
+    const decoded = decodePassportJws(jws);
+
+    expect(decoded).toMatchObject({ ...unsigned, kid: 'issuer_trusted#2026', jws });
+    expect(validate(decoded).allowed).toBe(true);
+  });
+
+  it('maps registered claims onto passport fields', async () => {
+    const jws = await encodePassportAsJws(unsigned, issuer);
+    const claims = JSON.parse(Buffer.from(jws.split('.')[1], 'base64url').toString());
+
+    expect(claims).toMatchObject({
+      jti: 'passport_jws_1',
+      iss: 'issuer_trusted',
+      sub: 'agent_test',
+      aud: 'gate_test',
+      iat: issuedAt.getTime() / 1000,
+      exp: issuedAt.getTime() / 1000 + 3600,
+    });
+  });
+
+  it('encodes further audiences in an aud array', async () => {
+    const jws = await encodePassportAsJws({ ...unsigned, audience: ['gate_b'] }, issuer);
+    const claims = JSON.parse(Buffer.from(jws.split('.')[1], 'base64url').toString());
+
+    expect(claims.aud).toEqual(['gate_test', 'gate_b']);
+    expect(decodePassportJws(jws)).toMatchObject({ gate_id: 'gate_test', audience: ['gate_b'] });
+  });
+
+  it('rejects a JWS with a tampered payload', async () => {
+    const [header, , signature] = (await encodePassportAsJws(unsigned, issuer)).split('.');
+    const forged = await encodePassportAsJws({ ...unsigned, constraints: {} }, issuer);
+    const tampered = `${header}.${forged.split('.')[1]}.${signature}`;
+
+    expect(validate(decodePassportJws(tampered)).denial?.code).toBe(DenyReason.INVALID_SIGNATURE);
+  });
+
+  it('rejects malformed tokens and other algorithms', () => {
+    const header = (value: object) => base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+
+    expect(() => decodePassportJws('not-a-jws')).toThrow();
+    expect(() => decodePassportJws(`${header({ alg: 'HS256' })}.e30.c2ln`)).toThrow('algorithm');
+    expect(() => decodePassportJws(`${header({ alg: 'EdDSA' })}.e30.c2ln`)).toThrow('jti');
+  });
+
+  it('rejects critical header parameters it does not understand', () => {
+    const header = base64UrlEncode(new TextEncoder().encode(JSON.stringify({ alg: 'EdDSA', crit: ['exp'], exp: 0 })));
+
+    expect(() => decodePassportJws(`${header}.e30.c2ln`)).toThrow('Unsupported critical header parameters: ["exp"]');
+  });
+
+  it('still accepts hex-signed JSON passports', async () => {
+    const signature = await issuer.sign(new TextEncoder().encode(canonicalPassportPayload({ ...unsigned, signature: '' })));
+
+    expect(validate({ ...unsigned, signature: bytesToHex(signature) }).allowed).toBe(true);
+  });
+});
+
 // =========================================================================
 // PROTOCOL SDK CONSTANTS TESTS
 // =========================================================================
@@ -0,0 +1,346 @@
+/**
+ * Uniplex MCP Server - Approval Module
+ * Version: 1.0.0
+ *
+ * Human approval workflow for SUSPEND decisions (§14B.2):
+ *   1. A SUSPENDed call creates a pending approval bound to the call
+ *      (tool, canonical input hash, passport)
+ *   2. An approver approves or denies it through the local approver API
+ *   3. The agent fetches a signed one-time approval token and replays the
+ *      original call with it in _meta.uniplex_approval_token
+ *
+ * Approvals expire after a TTL whether or not they were decided.
+ *
+ * Cross-ref: MCP Server Spec Section 14B.2 (Three-Tier Decision Model)
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import {
+  ApprovalStore,
+  ApprovalConfig,
+  GateSigner,
+  PendingApproval,
+} from './types.js';
+import { canonicalize } from './canonical.js';
+import { signJws, verifyJws, bytesToHex, base64UrlDecode } from './signing.js';
+
+const DEFAULT_TTL_MINUTES = 15;
+const DEFAULT_SWEEP_INTERVAL_MS = 60 * 1000;
+
+const APPROVAL_TOKEN_TYPE = 'uniplex-approval';
+
+// =============================================================================
+// APPROVAL STORE (LOCAL, IN-MEMORY)
+// =============================================================================
+
+export class InMemoryApprovalStore implements ApprovalStore {
+  private approvals: Map<string, PendingApproval> = new Map();
+
+  async get(approvalId: string): Promise<PendingApproval | undefined> {
+    return this.approvals.get(approvalId);
+  }
+
+  async set(approval: PendingApproval): Promise<void> {
+    this.approvals.set(approval.approval_id, approval);
+  }
+
+  async delete(approvalId: string): Promise<boolean> {
+    return this.approvals.delete(approvalId);
+  }
+
+  async list(): Promise<PendingApproval[]> {
+    return Array.from(this.approvals.values());
+  }
+
+  async consume(approvalId: string): Promise<boolean> {
+    const approval = this.approvals.get(approvalId);
+    if (approval?.status !== 'approved') return false;
+
+    this.approvals.set(approvalId, { ...approval, status: 'consumed' });
+    return true;
+  }
+}
+
+// =============================================================================
+// CALL BINDING
+// =============================================================================
+
+/**
+ * SHA-256 of the RFC 8785 canonical tool input, hex encoded
+ */
+export function hashToolInput(input: unknown): string {
+  return createHash('sha256').update(canonicalize(input ?? {})).digest('hex');
+}
+
+/**
+ * The call an approval token is being redeemed for
+ */
+export interface ApprovalBinding {
+  passport_id?: string;
+  tool: string;
+  permission_key: string;
+  input: unknown;
+}
+
+/**
+ * What an approval is requested for; binding to a tool binds it to one call
+ */
+export interface ApprovalRequest {
+  permissions: string[];
+  session_id?: string;
+  passport_id?: string;
+  agent_id?: string;
+  tool?: string;
+  input?: unknown;
+  reason?: string;
+  reason_codes?: string[];
+}
+
+export type ApprovalCheck =
+  | { valid: true; approval: PendingApproval }
+  | { valid: false; reason: string };
+
+// =============================================================================
+// APPROVAL MANAGER
+// =============================================================================
+
+export class ApprovalManager {
+  private store: ApprovalStore;
+  readonly ttlMs: number;
+  private approvalUrl?: string;
+  private onPending?: ApprovalConfig['on_pending'];
+  private sweepInterval?: NodeJS.Timeout;
+
+  constructor(
+    private gateId: string,
+    private signer: GateSigner,
+    config: ApprovalConfig = {}
+  ) {
+    this.store = config.store ?? new InMemoryApprovalStore();
+    this.ttlMs = (config.ttl_minutes ?? DEFAULT_TTL_MINUTES) * 60 * 1000;
+    this.approvalUrl = config.approval_url;
+    this.onPending = config.on_pending;
+  }
+
+  // ==========================================================================
+  // REQUESTS
+  // ==========================================================================
+
+  /**
+   * Create a pending approval and notify the configured approver hook
+   */
+  async create(params: ApprovalRequest): Promise<PendingApproval> {
+    const approval = this.build(params);
+    await this.store.set(approval);
+
+    if (this.onPending) {
+      try {
+        await this.onPending(approval);
+      } catch (error) {
+        console.error('Approval on_pending hook failed:', error);
+      }
+    }
+
+    return approval;
+  }
+
+  /**
+   * Record an approval the user granted in-band (MCP elicitation).
+   * It is never pending, so the on_pending hook is not called.
+   */
+  async grant(params: ApprovalRequest, decision: { approver?: string } = {}): Promise<PendingApproval> {
+    const approval = this.build(params);
+    approval.status = 'approved';
+    approval.decided_at = approval.created_at;
+    approval.decided_by = decision.approver;
+
+    await this.store.set(approval);
+    return approval;
+  }
+
+  private build(params: ApprovalRequest): PendingApproval {
+    const now = Date.now();
+    const { input, ...rest } = params;
+
+    return {
+      approval_id: `appr_${randomUUID()}`,
+      gate_id: this.gateId,
+      status: 'pending',
+      ...rest,
+      ...(params.tool !== undefined && { input_hash: hashToolInput(input) }),
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + this.ttlMs).toISOString(),
+    };
+  }
+
+  /**
+   * Get an approval, marking it expired once past its expiry
+   */
+  async get(approvalId: string): Promise<PendingApproval | undefined> {
+    const approval = await this.store.get(approvalId);
+    if (approval && isExpired(approval) && (approval.status === 'pending' || approval.status === 'approved')) {
+      approval.status = 'expired';
+      await this.store.set(approval);
+    }
+    return approval;
+  }
+
+  async listPending(): Promise<PendingApproval[]> {
+    const approvals = await this.store.list();
+    return approvals.filter(a => a.status === 'pending' && !isExpired(a));
+  }
+
+  getApprovalUrl(approvalId: string): string | undefined {
+    return this.approvalUrl?.replace('{approval_id}', encodeURIComponent(approvalId));
+  }
+
+  // ==========================================================================
+  // LOCAL APPROVER API
+  // ==========================================================================
+
+  async approve(approvalId: string, decision: { approver?: string; reason?: string } = {}): Promise<PendingApproval> {
+    return this.decide(approvalId, 'approved', decision);
+  }
+
+  async deny(approvalId: string, decision: { approver?: string; reason?: string } = {}): Promise<PendingApproval> {
+    return this.decide(approvalId, 'denied', decision);
+  }
+
+  private async decide(
+    approvalId: string,
+    status: 'approved' | 'denied',
+    decision: { approver?: string; reason?: string }
+  ): Promise<PendingApproval> {
+    const approval = await this.get(approvalId);
+    if (!approval) {
+      throw new Error(`Unknown approval: ${approvalId}`);
+    }
+    if (approval.status !== 'pending') {
+      throw new Error(`Approval ${approvalId} is ${approval.status}`);
+    }
+
+    const now = Date.now();
+    approval.status = status;
+    approval.decided_at = new Date(now).toISOString();
+    approval.decided_by = decision.approver;
+    approval.decision_reason = decision.reason;
+    // An approval is usable for one TTL after the decision
+    if (status === 'approved') {
+      approval.expires_at = new Date(now + this.ttlMs).toISOString();
+    }
+
+    await this.store.set(approval);
+    return approval;
+  }
+
+  // ==========================================================================
+  // APPROVAL TOKENS
+  // ==========================================================================
+
+  /**
+   * Issue the signed approval token for an approved request
+   */
+  async issueToken(approval: PendingApproval): Promise<string | undefined> {
+    if (approval.status !== 'approved') return undefined;
+
+    return signJws(canonicalize({
+      typ: APPROVAL_TOKEN_TYPE,
+      approval_id: approval.approval_id,
+      gate_id: approval.gate_id,
+      passport_id: approval.passport_id,
+      tool: approval.tool,
+      input_hash: approval.input_hash,
+      exp: approval.expires_at,
+    }), this.signer);
+  }
+
+  /**
+   * Check an approval token against the call it is replayed with.
+   * Does not consume the approval; call consume() once the call is allowed.
+   */
+  async check(token: string, binding: ApprovalBinding): Promise<ApprovalCheck> {
+    const publicKey = bytesToHex(await this.signer.getPublicKey());
+    if (!verifyJws(token, publicKey)) {
+      return { valid: false, reason: 'Approval token signature is invalid' };
+    }
+
+    let claims: { typ?: string; approval_id?: string };
+    try {
+      claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(token.split('.')[1])));
+    } catch {
+      return { valid: false, reason: 'Approval token is malformed' };
+    }
+    if (claims.typ !== APPROVAL_TOKEN_TYPE || !claims.approval_id) {
+      return { valid: false, reason: 'Not an approval token' };
+    }
+
+    // The store is authoritative for status; the token only names the approval
+    const approval = await this.get(claims.approval_id);
+    if (!approval || approval.gate_id !== this.gateId) {
+      return { valid: false, reason: 'Unknown approval' };
+    }
+    if (approval.status !== 'approved') {
+      return { valid: false, reason: `Approval is ${approval.status}` };
+    }
+    if (approval.passport_id !== undefined && approval.passport_id !== binding.passport_id) {
+      return { valid: false, reason: 'Approval was granted to a different passport' };
+    }
+    if (approval.tool !== undefined) {
+      if (approval.tool !== binding.tool || approval.input_hash !== hashToolInput(binding.input)) {
+        return { valid: false, reason: 'Approval was granted for a different call' };
+      }
+    } else if (!approval.permissions.includes(binding.permission_key)) {
+      return { valid: false, reason: `Approval does not cover ${binding.permission_key}` };
+    }
+
+    return { valid: true, approval };
+  }
+
+  /**
+   * Mark an approval used. Returns false if it was already consumed or
+   * has expired; the store's compare-and-set settles concurrent calls.
+   */
+  async consume(approvalId: string): Promise<boolean> {
+    const approval = await this.get(approvalId);
+    if (!approval || approval.status !== 'approved') return false;
+
+    return this.store.consume(approvalId);
+  }
+
+  // ==========================================================================
+  // EXPIRY
+  // ==========================================================================
+
+  /**
+   * Remove approvals past their expiry
+   */
+  async cleanupExpired(): Promise<number> {
+    let cleaned = 0;
+    for (const approval of await this.store.list()) {
+      if (isExpired(approval) && await this.store.delete(approval.approval_id)) {
+        cleaned++;
+      }
+    }
+    return cleaned;
+  }
+
+  startSweeper(intervalMs: number = DEFAULT_SWEEP_INTERVAL_MS): void {
+    this.stopSweeper();
+    this.sweepInterval = setInterval(
+      () => this.cleanupExpired().catch(console.error),
+      intervalMs
+    );
+    this.sweepInterval.unref();
+  }
+
+  stopSweeper(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = undefined;
+    }
+  }
+}
+
+function isExpired(approval: PendingApproval): boolean {
+  return new Date(approval.expires_at).getTime() <= Date.now();
+}
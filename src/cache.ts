@@ -6,17 +6,47 @@
  * - Permission catalog
  * - Revocation list
  * - Issuer public keys
+ * - Trust network membership (issuer trust levels)
+ * 
+ * Optionally persists a signed snapshot of the caches so a gate can
+ * start from disk when the Uniplex API is unreachable, and applies
+ * revocations pushed over SSE or webhooks without waiting for a poll.
  * 
  * Cross-ref: MCP Server Spec Section 1.3 (Local-First Verification)
  */
 
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { dirname } from 'path';
 import {
   CachedCatalog,
+  CacheSnapshot,
   CatalogPermission,
   CatalogVersion,
   CacheConfig,
+  CacheFreshness,
+  CachePushEvent,
+  CachePushWebhookConfig,
+  CacheRefreshStats,
+  CacheResource,
+  FailMode,
+  GateSigner,
+  IssuerKeys,
+  IssuerKeyset,
+  RefreshOutcome,
+  TrustNetworkMember,
   UniplexMCPServerConfig,
 } from './types.js';
+import { base64UrlEncode, bytesToHex, hexToBytes, signDetachedJws, verifyJws } from './signing.js';
+import { canonicalize } from './canonical.js';
+import {
+  parsePushEvent,
+  readSseMessages,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from './push.js';
 
 // Default cache configuration
 const DEFAULT_CACHE_CONFIG: CacheConfig = {
@@ -25,12 +55,66 @@ const DEFAULT_CACHE_CONFIG: CacheConfig = {
   fail_mode: 'fail_open',
 };
 
+const DEFAULT_SNAPSHOT_MAX_AGE_MINUTES = 24 * 60;
+const DEFAULT_BACKOFF_INITIAL_MS = 1000;
+const DEFAULT_BACKOFF_MAX_MS = 5 * 60 * 1000;
+const DEFAULT_ISSUER_KEY_OVERLAP_MINUTES = 24 * 60;
+const DEFAULT_WEBHOOK_PATH = '/uniplex/events';
+const DEFAULT_PUSH_IDLE_TIMEOUT_MS = 60 * 1000;
+const MAX_WEBHOOK_BODY_BYTES = 1024 * 1024;
+
+/**
+ * The revocation `since` cursor is too old for the API to serve a delta
+ * (410 Gone); the full list must be fetched again
+ */
+class RevocationCursorExpiredError extends Error {
+  constructor() {
+    super('Revocation cursor expired');
+  }
+}
+
+/**
+ * Snapshot file contents: the snapshot JSON and a detached JWS over it
+ */
+interface SignedCacheSnapshot {
+  snapshot_json: string;
+  signature: string;
+}
+
+/**
+ * Content hash of a catalog version: SHA-256 (hex) of the RFC 8785
+ * canonical {gate_id, version, published_at, permissions}, with
+ * permissions keyed by permission_key as published. A catalog published
+ * without published_at is hashed without it.
+ */
+export function computeCatalogContentHash(catalog: {
+  gate_id: string;
+  version: number;
+  published_at?: string;
+  permissions: Record<string, unknown>;
+}): string {
+  return createHash('sha256').update(canonicalize(catalog)).digest('hex');
+}
+
+/**
+ * A single hex key as a keyset of one (kid-less) JWK
+ */
+function toKeyset(issuerKey: string | IssuerKeyset | undefined): IssuerKeyset {
+  if (issuerKey === undefined) return { keys: [] };
+  if (typeof issuerKey !== 'string') return issuerKey;
+  return { keys: [{ kty: 'OKP', crv: 'Ed25519', x: base64UrlEncode(hexToBytes(issuerKey)) }] };
+}
+
 export interface CacheState {
   catalog: CachedCatalog | null;
   revocationList: Set<string>;
   revocationCachedAt: number;
-  issuerKeys: Record<string, string>;
+  revocationCursor?: string;
+  issuerKeys: IssuerKeys;
   issuerKeysCachedAt: number;
+  trustNetworkMembers: Record<string, Record<string, number>>;  // network -> issuer -> level
+  trustNetworksCachedAt: number;
+  issuerTrust: Record<string, number>;  // issuer -> effective trust level
 }
 
 export class CacheManager {
@@ -40,17 +124,52 @@ export class CacheManager {
     revocationCachedAt: 0,
     issuerKeys: {},
     issuerKeysCachedAt: 0,
+    trustNetworkMembers: {},
+    trustNetworksCachedAt: 0,
+    issuerTrust: {},
   };
   
   private config: CacheConfig;
   private apiUrl: string;
   private gateId: string;
-  private refreshIntervals: NodeJS.Timeout[] = [];
+  private gateSecret?: string;
+  private trustedIssuers: Record<string, number>;
+  private trustNetworks: string[];
+  private refreshTimers: Map<CacheResource, NodeJS.Timeout> = new Map();
+  private etags: Map<CacheResource, string> = new Map();
+  private refreshStats: Record<CacheResource, CacheRefreshStats> = {
+    catalog: { applied: 0, skipped: 0, failed: 0, consecutive_failures: 0 },
+    revocations: { applied: 0, skipped: 0, failed: 0, consecutive_failures: 0 },
+    issuer_keys: { applied: 0, skipped: 0, failed: 0, consecutive_failures: 0 },
+    trust_networks: { applied: 0, skipped: 0, failed: 0, consecutive_failures: 0 },
+  };
+  private signer?: GateSigner;
+  private snapshotWrites: Promise<unknown> = Promise.resolve();
+  private lastSnapshotStamp?: string;
+  private pushConnected = false;
+  private pushFailures = 0;
+  private pushAbort?: AbortController;
+  private pushRetryTimer?: NodeJS.Timeout;
+  private lastEventId?: string;
+  private webhookServer?: HttpServer;
   
-  constructor(serverConfig: UniplexMCPServerConfig) {
+  /**
+   * @param signer Gate signer used to sign and check cache snapshots
+   *               (required when cache.snapshot is configured)
+   */
+  constructor(serverConfig: UniplexMCPServerConfig, signer?: GateSigner) {
     this.config = serverConfig.cache ?? DEFAULT_CACHE_CONFIG;
     this.apiUrl = serverConfig.uniplex_api_url;
     this.gateId = serverConfig.gate_id;
+    this.gateSecret = serverConfig.gate_secret;
+    this.trustNetworks = serverConfig.trust_networks ?? [];
+    this.signer = signer;
+    
+    this.trustedIssuers = {};
+    for (const issuerId of serverConfig.trusted_issuers ?? []) {
+      this.trustedIssuers[issuerId] = serverConfig.issuer_trust_levels?.[issuerId] ?? 0;
+    }
+    this.rebuildIssuerTrust();
   }
   
   // ==========================================================================
@@ -65,10 +184,18 @@ export class CacheManager {
     return this.state.revocationList;
   }
   
-  get issuerKeys(): Record<string, string> {
+  get issuerKeys(): IssuerKeys {
     return this.state.issuerKeys;
   }
   
+  /**
+   * Trusted issuer → trust level (highest across trusted_issuers and
+   * trust network memberships). Issuers absent from this index are untrusted.
+   */
+  get issuerTrust(): Record<string, number> {
+    return this.state.issuerTrust;
+  }
+  
   // ==========================================================================
   // CACHE FRESHNESS CHECKS
   // ==========================================================================
@@ -92,19 +219,28 @@ export class CacheManager {
     return ageMs < maxAgeMs;
   }
   
-  getFailMode(action?: string): 'fail_open' | 'fail_closed' {
+  getFailMode(action?: string): FailMode {
     const override = action ? this.config.fail_mode_overrides?.[action] : undefined;
     return override?.fail_mode ?? this.config.fail_mode;
   }
   
+  /**
+   * Freshness snapshot for verifyLocally (fail_open / fail_closed)
+   */
+  getFreshness(action?: string): CacheFreshness {
+    return {
+      catalogFresh: this.isCatalogFresh(),
+      revocationFresh: this.isRevocationListFresh(action),
+      failMode: this.getFailMode(action),
+    };
+  }
+  
   getCatalogVersion(): number | undefined {
     return this.state.catalog?.current?.version;
   }
   
   getCatalogContentHash(): string | undefined {
-    // In production, this would be computed from the catalog content
-    // For now, return undefined (optional field)
-    return undefined;
+    return this.state.catalog?.current.content_hash;
   }
   
   // ==========================================================================
@@ -118,8 +254,15 @@ export class CacheManager {
       permissionsByKey[perm.permission_key] = perm;
     }
     
+    const versions: Record<number, CatalogVersion> = {};
+    for (const [version, catalogVersion] of Object.entries(catalog.versions)) {
+      versions[Number(version)] = this.withContentHash(catalog.gate_id, catalogVersion);
+    }
+    
     this.state.catalog = {
       ...catalog,
+      current: this.withContentHash(catalog.gate_id, { ...catalog.current, permissionsByKey }),
+      versions,
       cached_at: Date.now(),
       permissionsByKey,
     };
@@ -130,9 +273,61 @@ export class CacheManager {
     this.state.revocationCachedAt = Date.now();
   }
   
-  updateIssuerKeys(keys: Record<string, string>): void {
-    this.state.issuerKeys = keys;
-    this.state.issuerKeysCachedAt = Date.now();
+  /**
+   * Replace the issuer keys. Keys missing from the new set stay as
+   * retiring for cache.issuer_key_overlap_minutes (unless revoked), so
+   * passports signed before a rotation keep verifying.
+   */
+  updateIssuerKeys(keys: IssuerKeys): void {
+    const now = Date.now();
+    const overlapMinutes = this.config.issuer_key_overlap_minutes ?? DEFAULT_ISSUER_KEY_OVERLAP_MINUTES;
+    const retainUntil = now + overlapMinutes * 60 * 1000;
+    const merged: IssuerKeys = { ...keys };
+    
+    for (const [issuerId, previous] of Object.entries(this.state.issuerKeys)) {
+      const current = toKeyset(keys[issuerId]).keys;
+      const dropped = toKeyset(previous).keys.filter(key =>
+        key.status !== 'revoked'
+        && !current.some(k => k.x === key.x)
+        && (key.not_after === undefined || Date.parse(key.not_after) > now));
+      if (dropped.length === 0) continue;
+      
+      merged[issuerId] = {
+        keys: [
+          ...current,
+          ...dropped.map(key => ({
+            ...key,
+            status: 'retiring' as const,
+            not_after: new Date(Math.min(retainUntil, key.not_after ? Date.parse(key.not_after) : Infinity)).toISOString(),
+          })),
+        ],
+      };
+    }
+    
+    this.state.issuerKeys = merged;
+    this.state.issuerKeysCachedAt = now;
+  }
+  
+  updateTrustNetworkMembers(networkId: string, members: TrustNetworkMember[]): void {
+    const levels: Record<string, number> = {};
+    for (const member of members) {
+      levels[member.issuer_id] = member.trust_level ?? 0;
+    }
+    
+    this.state.trustNetworkMembers = {
+      ...this.state.trustNetworkMembers,
+      [networkId]: levels,
+    };
+    this.state.trustNetworksCachedAt = Date.now();
+    this.rebuildIssuerTrust();
+  }
+  
+  /**
+   * Trust an issuer directly, in addition to config trusted_issuers
+   */
+  addTrustedIssuer(issuerId: string, trustLevel: number = 0): void {
+    this.trustedIssuers[issuerId] = trustLevel;
+    this.rebuildIssuerTrust();
   }
   
   // ==========================================================================
@@ -140,59 +335,105 @@ export class CacheManager {
   // ==========================================================================
   
   async startBackgroundRefresh(): Promise<void> {
+    // Fail before fetching or scheduling anything
+    this.checkPushConfig();
+    
+    // Start from the last snapshot, so an unreachable API at boot
+    // still leaves a catalog to verify against
+    await this.loadSnapshot();
+    
     // Initial fetch
-    await this.refreshAll();
+    const [catalog, revocations, issuerKeys, trustNetworks] = await this.refreshAll();
+    await this.saveSnapshot().catch(error => console.error('Failed to save cache snapshot:', error));
     
-    // Catalog refresh interval
-    const catalogInterval = setInterval(
-      () => this.refreshCatalog().catch(console.error),
-      this.config.catalog_max_age_minutes * 60 * 1000
-    );
-    this.refreshIntervals.push(catalogInterval);
+    const catalogIntervalMs = this.config.catalog_max_age_minutes * 60 * 1000;
+    this.scheduleRefresh('catalog', () => this.refreshCatalog(), catalogIntervalMs, catalog);
+    this.scheduleRefresh('issuer_keys', () => this.refreshIssuerKeys(), catalogIntervalMs, issuerKeys);
+    
+    // Trust network membership changes rarely
+    if (this.trustNetworks.length > 0) {
+      this.scheduleRefresh('trust_networks', () => this.refreshTrustNetworks(), catalogIntervalMs, trustNetworks);
+    }
     
-    // Revocation refresh interval (more frequent)
-    const revocationInterval = setInterval(
-      () => this.refreshRevocations().catch(console.error),
-      this.config.revocation_max_age_minutes * 60 * 1000
+    // Revocations refresh more frequently
+    this.scheduleRefresh(
+      'revocations',
+      () => this.refreshRevocations(),
+      this.config.revocation_max_age_minutes * 60 * 1000,
+      revocations
     );
-    this.refreshIntervals.push(revocationInterval);
+    
+    // e.g. the webhook port is taken: don't leave the timers running
+    try {
+      await this.startPush();
+    } catch (error) {
+      this.stopBackgroundRefresh();
+      throw error;
+    }
   }
   
   stopBackgroundRefresh(): void {
-    for (const interval of this.refreshIntervals) {
-      clearInterval(interval);
+    for (const timer of this.refreshTimers.values()) {
+      clearTimeout(timer);
     }
-    this.refreshIntervals = [];
+    this.refreshTimers.clear();
+    this.stopPush();
   }
   
-  async refreshAll(): Promise<void> {
-    await Promise.all([
+  async refreshAll(): Promise<RefreshOutcome[]> {
+    return Promise.all([
       this.refreshCatalog(),
       this.refreshRevocations(),
       this.refreshIssuerKeys(),
+      this.refreshTrustNetworks(),
     ]);
   }
   
-  async refreshCatalog(): Promise<void> {
+  /**
+   * Per-resource refresh counters
+   */
+  getRefreshStats(): Record<CacheResource, CacheRefreshStats> {
+    const stats = {} as Record<CacheResource, CacheRefreshStats>;
+    for (const [resource, counters] of Object.entries(this.refreshStats)) {
+      stats[resource as CacheResource] = { ...counters };
+    }
+    return stats;
+  }
+  
+  async refreshCatalog(): Promise<RefreshOutcome> {
     try {
-      const response = await fetch(
-        `${this.apiUrl}/gates/${this.gateId}/catalog`,
-        { headers: { 'Accept': 'application/json' } }
-      );
+      const response = await this.fetchConditional('catalog', `${this.apiUrl}/gates/${this.gateId}/catalog`);
       
-      if (!response.ok) {
-        throw new Error(`Catalog fetch failed: ${response.status}`);
+      if (!response) {
+        // Unchanged: the cached catalog is confirmed current
+        if (this.state.catalog) {
+          this.state.catalog = { ...this.state.catalog, cached_at: Date.now() };
+        }
+        return this.recordRefresh('catalog', 'skipped');
       }
       
-      const data = await response.json() as { version?: number; permissions?: CatalogPermission[]; published_at?: string; min_compatible_version?: number };
+      const data = await response.json() as {
+        version?: number;
+        permissions?: CatalogPermission[];
+        published_at?: string;
+        min_compatible_version?: number;
+        content_hash?: string;
+        signature?: string;  // detached JWS over content_hash
+      };
+      
+      // Hash only what the API sent, so the hash is the same on every gate
+      const version = data.version ?? 1;
+      const published_at = data.published_at;
+      const content_hash = this.verifyCatalogContent(version, published_at, data);
       
       // Build catalog structure from API response
       const catalog: CachedCatalog = {
         gate_id: this.gateId,
         current: {
-          version: data.version ?? 1,
+          version,
           permissionsByKey: this.buildPermissionIndex(data.permissions ?? []),
-          published_at: data.published_at ?? new Date().toISOString(),
+          published_at,
+          content_hash,
         },
         versions: {},
         min_compatible_version: data.min_compatible_version ?? 1,
@@ -201,54 +442,586 @@ export class CacheManager {
       };
       
       this.updateCatalog(catalog);
+      return this.recordRefresh('catalog', 'applied');
     } catch (error) {
       console.error('Failed to refresh catalog:', error);
       // Don't throw - allow continued operation with stale cache
+      return this.recordRefresh('catalog', 'failed');
     }
   }
   
-  async refreshRevocations(): Promise<void> {
+  /**
+   * Refresh the revocation list. Once a full list has been loaded, only
+   * changes since the last cursor are requested.
+   */
+  async refreshRevocations(): Promise<RefreshOutcome> {
+    const cursor = this.state.revocationCursor;
     try {
-      const response = await fetch(
-        `${this.apiUrl}/gates/${this.gateId}/revocations`,
-        { headers: { 'Accept': 'application/json' } }
-      );
+      const url = new URL(`${this.apiUrl}/gates/${this.gateId}/revocations`);
+      if (cursor !== undefined) {
+        url.searchParams.set('since', cursor);
+      }
+      
+      const response = await this.fetchConditional('revocations', url.toString());
       
-      if (!response.ok) {
-        throw new Error(`Revocation fetch failed: ${response.status}`);
+      if (!response) {
+        this.state.revocationCachedAt = Date.now();
+        return this.recordRefresh('revocations', 'skipped');
       }
       
-      const data = await response.json() as { passport_ids?: string[] };
-      this.updateRevocationList(data.passport_ids ?? []);
+      const data = await response.json() as {
+        passport_ids?: string[];  // full list
+        added?: string[];         // delta since the cursor
+        removed?: string[];
+        cursor?: string;
+      };
+      
+      if (cursor !== undefined && data.passport_ids === undefined) {
+        this.applyRevocationDelta(data.added ?? [], data.removed ?? []);
+      } else {
+        this.updateRevocationList(data.passport_ids ?? []);
+      }
+      this.state.revocationCursor = data.cursor;
+      return this.recordRefresh('revocations', 'applied');
     } catch (error) {
+      if (error instanceof RevocationCursorExpiredError && cursor !== undefined) {
+        // The API no longer has changes since our cursor: start over
+        this.state.revocationCursor = undefined;
+        this.etags.delete('revocations');
+        return this.refreshRevocations();
+      }
       console.error('Failed to refresh revocations:', error);
       // Don't throw - allow continued operation with stale cache
+      return this.recordRefresh('revocations', 'failed');
     }
   }
   
-  async refreshIssuerKeys(): Promise<void> {
+  async refreshIssuerKeys(): Promise<RefreshOutcome> {
     try {
-      const response = await fetch(
-        `${this.apiUrl}/issuers/keys`,
-        { headers: { 'Accept': 'application/json' } }
-      );
+      const response = await this.fetchConditional('issuer_keys', `${this.apiUrl}/issuers/keys`);
       
-      if (!response.ok) {
-        throw new Error(`Issuer keys fetch failed: ${response.status}`);
+      if (!response) {
+        this.state.issuerKeysCachedAt = Date.now();
+        return this.recordRefresh('issuer_keys', 'skipped');
       }
       
-      const data = await response.json() as { keys?: Record<string, string> };
+      const data = await response.json() as { keys?: IssuerKeys };
       this.updateIssuerKeys(data.keys ?? {});
+      return this.recordRefresh('issuer_keys', 'applied');
     } catch (error) {
       console.error('Failed to refresh issuer keys:', error);
       // Don't throw - allow continued operation with stale cache
+      return this.recordRefresh('issuer_keys', 'failed');
+    }
+  }
+  
+  async refreshTrustNetworks(): Promise<RefreshOutcome> {
+    if (this.trustNetworks.length === 0) return 'skipped';
+    
+    const failures = await Promise.all(this.trustNetworks.map(async networkId => {
+      try {
+        const response = await fetch(
+          `${this.apiUrl}/trust-networks/${networkId}/members`,
+          { headers: { 'Accept': 'application/json' } }
+        );
+        
+        if (!response.ok) {
+          throw new Error(`Trust network fetch failed: ${response.status}`);
+        }
+        
+        const data = await response.json() as { members?: TrustNetworkMember[] };
+        this.updateTrustNetworkMembers(networkId, data.members ?? []);
+        return false;
+      } catch (error) {
+        console.error(`Failed to refresh trust network ${networkId}:`, error);
+        // Don't throw - allow continued operation with stale membership
+        return true;
+      }
+    }));
+    
+    return this.recordRefresh('trust_networks', failures.includes(true) ? 'failed' : 'applied');
+  }
+  
+  /**
+   * GET with If-None-Match when an ETag is known.
+   * Resolves to undefined on 304 Not Modified; throws on other errors.
+   */
+  private async fetchConditional(resource: CacheResource, url: string): Promise<Response | undefined> {
+    const headers: Record<string, string> = { 'Accept': 'application/json' };
+    const etag = this.etags.get(resource);
+    if (etag) {
+      headers['If-None-Match'] = etag;
+    }
+    
+    const response = await fetch(url, { headers });
+    
+    if (response.status === 304) {
+      return undefined;
+    }
+    if (resource === 'revocations' && response.status === 410) {
+      throw new RevocationCursorExpiredError();
     }
+    if (!response.ok) {
+      throw new Error(`${resource} fetch failed: ${response.status}`);
+    }
+    
+    const newEtag = response.headers.get('ETag');
+    if (newEtag) {
+      this.etags.set(resource, newEtag);
+    } else {
+      this.etags.delete(resource);
+    }
+    return response;
+  }
+  
+  private applyRevocationDelta(added: string[], removed: string[]): void {
+    const revocationList = new Set(this.state.revocationList);
+    for (const passportId of added) revocationList.add(passportId);
+    for (const passportId of removed) revocationList.delete(passportId);
+    
+    this.state.revocationList = revocationList;
+    this.state.revocationCachedAt = Date.now();
+  }
+  
+  private recordRefresh(resource: CacheResource, outcome: RefreshOutcome): RefreshOutcome {
+    const counters = this.refreshStats[resource];
+    counters[outcome]++;
+    counters.consecutive_failures = outcome === 'failed' ? counters.consecutive_failures + 1 : 0;
+    return outcome;
+  }
+  
+  /**
+   * Run a refresh on a timer: every intervalMs while it succeeds, backing
+   * off exponentially (with jitter) while it fails
+   */
+  private scheduleRefresh(
+    resource: CacheResource,
+    refresh: () => Promise<RefreshOutcome>,
+    intervalMs: number,
+    lastOutcome: RefreshOutcome
+  ): void {
+    const delayMs = lastOutcome === 'failed'
+      ? this.backoffDelay(this.refreshStats[resource].consecutive_failures)
+      : intervalMs;
+    
+    const timer = setTimeout(async () => {
+      // Revocations arrive over the push stream while it's connected
+      if (resource === 'revocations' && this.pushConnected) {
+        this.scheduleRefresh(resource, refresh, intervalMs, 'skipped');
+        return;
+      }
+      
+      const outcome = await refresh();
+      await this.saveSnapshot().catch(error => console.error('Failed to save cache snapshot:', error));
+      
+      // Stopped while refreshing
+      if (this.refreshTimers.get(resource) !== timer) return;
+      this.scheduleRefresh(resource, refresh, intervalMs, outcome);
+    }, delayMs);
+    
+    this.refreshTimers.set(resource, timer);
+  }
+  
+  /**
+   * "Equal jitter": half the exponential delay, plus a random share of the other half
+   */
+  private backoffDelay(consecutiveFailures: number): number {
+    const initialMs = this.config.refresh_backoff?.initial_ms ?? DEFAULT_BACKOFF_INITIAL_MS;
+    const maxMs = this.config.refresh_backoff?.max_ms ?? DEFAULT_BACKOFF_MAX_MS;
+    
+    const exponentialMs = Math.min(maxMs, initialMs * 2 ** Math.max(0, consecutiveFailures - 1));
+    return exponentialMs / 2 + Math.random() * (exponentialMs / 2);
+  }
+  
+  // ==========================================================================
+  // PUSH INVALIDATION (network - NOT hot path)
+  // ==========================================================================
+  
+  /**
+   * Subscribe to the configured push channels (cache.push)
+   */
+  async startPush(): Promise<void> {
+    const push = this.config.push;
+    this.checkPushConfig();
+    
+    if (push?.webhook) {
+      await this.startWebhookReceiver(push.webhook);
+    }
+    
+    if (push?.sse) {
+      this.connectPushStream(
+        push.sse.url ?? `${this.apiUrl}/gates/${this.gateId}/events`,
+        push.sse.idle_timeout_ms ?? DEFAULT_PUSH_IDLE_TIMEOUT_MS
+      );
+    }
+  }
+  
+  /**
+   * @throws Error if cache.push can't be served with this config
+   */
+  private checkPushConfig(): void {
+    if (this.config.push?.webhook && !this.gateSecret) {
+      throw new Error('cache.push.webhook requires gate_secret');
+    }
+  }
+  
+  stopPush(): void {
+    this.pushAbort?.abort();
+    this.pushAbort = undefined;
+    clearTimeout(this.pushRetryTimer);
+    this.pushConnected = false;
+    
+    this.webhookServer?.close();
+    this.webhookServer = undefined;
+  }
+  
+  /**
+   * True while the SSE push stream is connected
+   */
+  isPushConnected(): boolean {
+    return this.pushConnected;
+  }
+  
+  /**
+   * Apply a pushed event: revocations immediately, a newer catalog
+   * version by refreshing the catalog now
+   */
+  async applyPushEvent(event: CachePushEvent): Promise<void> {
+    if (event.type === 'revocations') {
+      this.applyRevocationDelta(event.added ?? [], event.removed ?? []);
+    } else if (event.version > (this.getCatalogVersion() ?? 0)) {
+      await this.refreshCatalog();
+    }
+    await this.saveSnapshot().catch(error => console.error('Failed to save cache snapshot:', error));
+  }
+  
+  /**
+   * Hold the SSE stream open, reconnecting with backoff when it drops or
+   * goes silent. Polling covers the gap until it is back.
+   */
+  private connectPushStream(url: string, idleTimeoutMs: number): void {
+    const controller = new AbortController();
+    this.pushAbort = controller;
+    
+    this.streamPushEvents(url, controller.signal, idleTimeoutMs)
+      .catch(error => {
+        if (!controller.signal.aborted) console.error('Push stream dropped:', error);
+      })
+      .finally(() => {
+        if (controller.signal.aborted) return;
+        
+        this.pushConnected = false;
+        this.pushFailures++;
+        this.refreshRevocations().catch(console.error);
+        this.pushRetryTimer = setTimeout(
+          () => this.connectPushStream(url, idleTimeoutMs),
+          this.backoffDelay(this.pushFailures)
+        );
+      });
+  }
+  
+  /**
+   * Read the SSE stream until it closes, fails or sends nothing for
+   * idleTimeoutMs. A stalled stream that stays open would otherwise keep
+   * revocation polling paused while the list goes stale.
+   */
+  private async streamPushEvents(url: string, signal: AbortSignal, idleTimeoutMs: number): Promise<void> {
+    // Aborted by stopPush (signal) or by the idle timer
+    const stream = new AbortController();
+    const stop = () => stream.abort(signal.reason);
+    signal.addEventListener('abort', stop, { once: true });
+    
+    let idleTimer: NodeJS.Timeout | undefined;
+    const resetIdleTimer = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(
+        () => stream.abort(new Error(`Push stream sent nothing for ${idleTimeoutMs}ms`)),
+        idleTimeoutMs
+      );
+    };
+    
+    try {
+      resetIdleTimer();
+      const response = await fetch(url, {
+        headers: {
+          'Accept': 'text/event-stream',
+          ...(this.gateSecret && { 'Authorization': `Bearer ${this.gateSecret}` }),
+          ...(this.lastEventId && { 'Last-Event-ID': this.lastEventId }),
+        },
+        signal: stream.signal,
+      });
+      
+      if (!response.ok || !response.body) {
+        throw new Error(`Push stream failed: ${response.status}`);
+      }
+      
+      this.pushConnected = true;
+      this.pushFailures = 0;
+      // Catch up on anything revoked while disconnected
+      await this.refreshRevocations();
+      
+      for await (const message of readSseMessages(response.body)) {
+        resetIdleTimer();
+        // Any message, heartbeats included, shows the list is still current
+        this.state.revocationCachedAt = Date.now();
+        if (message.id) this.lastEventId = message.id;
+        if (!message.data) continue;
+        
+        const event = parsePushEvent(message.data);
+        if (event) {
+          await this.applyPushEvent(event);
+        } else {
+          console.error('Ignoring unrecognized push event');
+        }
+      }
+    } finally {
+      clearTimeout(idleTimer);
+      signal.removeEventListener('abort', stop);
+    }
+  }
+  
+  private async startWebhookReceiver(webhook: CachePushWebhookConfig): Promise<void> {
+    const path = webhook.path ?? DEFAULT_WEBHOOK_PATH;
+    
+    const server = createServer((req, res) => {
+      this.handleWebhook(req, res, path).catch(error => {
+        console.error('Push webhook failed:', error);
+        if (!res.headersSent) res.writeHead(500).end();
+      });
+    });
+    this.webhookServer = server;
+    
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(webhook.port, webhook.host ?? '127.0.0.1', () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+  }
+  
+  private async handleWebhook(req: IncomingMessage, res: ServerResponse, path: string): Promise<void> {
+    if (req.method !== 'POST' || new URL(req.url ?? '/', 'http://localhost').pathname !== path) {
+      res.writeHead(404).end();
+      return;
+    }
+    
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_WEBHOOK_BODY_BYTES) {
+        res.writeHead(413).end();
+        return;
+      }
+      chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+    }
+    const body = Buffer.concat(chunks).toString('utf-8');
+    
+    const header = (name: string) => {
+      const value = req.headers[name];
+      return Array.isArray(value) ? value[0] : value;
+    };
+    if (!verifyWebhookSignature(this.gateSecret!, body, header(WEBHOOK_TIMESTAMP_HEADER), header(WEBHOOK_SIGNATURE_HEADER))) {
+      res.writeHead(401).end();
+      return;
+    }
+    
+    const event = parsePushEvent(body);
+    if (!event) {
+      res.writeHead(400).end();
+      return;
+    }
+    
+    await this.applyPushEvent(event);
+    res.writeHead(204).end();
+  }
+  
+  // ==========================================================================
+  // SNAPSHOTS (disk I/O - NOT hot path)
+  // ==========================================================================
+  
+  /**
+   * Persist the current caches as a signed snapshot.
+   * No-op without cache.snapshot, before a catalog has been loaded, or when
+   * nothing has been refreshed since the last write.
+   */
+  async saveSnapshot(): Promise<void> {
+    const path = this.config.snapshot?.path;
+    if (!path || !this.state.catalog) return;
+    
+    const signer = this.requireSigner();
+    const stamp = this.snapshotStamp();
+    if (stamp === this.lastSnapshotStamp) return;
+    
+    const snapshot: CacheSnapshot = {
+      gate_id: this.gateId,
+      saved_at: new Date().toISOString(),
+      catalog: this.state.catalog,
+      revocations: Array.from(this.state.revocationList),
+      revocation_cached_at: this.state.revocationCachedAt,
+      revocation_cursor: this.state.revocationCursor,
+      issuer_keys: this.state.issuerKeys,
+      issuer_keys_cached_at: this.state.issuerKeysCachedAt,
+      trust_network_members: this.state.trustNetworkMembers,
+      trust_networks_cached_at: this.state.trustNetworksCachedAt,
+    };
+    const snapshot_json = JSON.stringify(snapshot);
+    const signed: SignedCacheSnapshot = {
+      snapshot_json,
+      signature: await signDetachedJws(snapshot_json, signer),
+    };
+    
+    // Serialize writes so an older snapshot never replaces a newer one
+    const write = this.snapshotWrites.then(async () => {
+      await fs.mkdir(dirname(path), { recursive: true });
+      const tmpPath = `${path}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(signed));
+      await fs.rename(tmpPath, path);
+      this.lastSnapshotStamp = stamp;
+    });
+    this.snapshotWrites = write.catch(() => undefined);
+    return write;
+  }
+  
+  /**
+   * Restore the caches from the snapshot on disk.
+   * Restored data keeps its original fetch times, so freshness checks and
+   * fail modes treat it exactly as they would have before the restart.
+   * 
+   * @returns true if a valid snapshot was loaded
+   */
+  async loadSnapshot(): Promise<boolean> {
+    const snapshotConfig = this.config.snapshot;
+    if (!snapshotConfig) return false;
+    
+    let signed: SignedCacheSnapshot;
+    try {
+      signed = JSON.parse(await fs.readFile(snapshotConfig.path, 'utf8')) as SignedCacheSnapshot;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to read cache snapshot:', error);
+      }
+      return false;
+    }
+    
+    const publicKey = bytesToHex(await this.requireSigner().getPublicKey());
+    if (typeof signed.snapshot_json !== 'string' || typeof signed.signature !== 'string'
+        || !verifyJws(signed.signature, publicKey, signed.snapshot_json)) {
+      console.error('Ignoring cache snapshot: invalid signature');
+      return false;
+    }
+    
+    const snapshot = JSON.parse(signed.snapshot_json) as CacheSnapshot;
+    if (snapshot.gate_id !== this.gateId || !snapshot.catalog) {
+      console.error('Ignoring cache snapshot: not for this gate');
+      return false;
+    }
+    
+    // A snapshot is as old as its catalog
+    const maxAgeMinutes = snapshotConfig.max_age_minutes ?? DEFAULT_SNAPSHOT_MAX_AGE_MINUTES;
+    if (Date.now() - snapshot.catalog.cached_at > maxAgeMinutes * 60 * 1000) {
+      console.error('Ignoring cache snapshot: older than max_age_minutes');
+      return false;
+    }
+    
+    this.state.catalog = snapshot.catalog;
+    this.state.revocationList = new Set(snapshot.revocations);
+    this.state.revocationCachedAt = snapshot.revocation_cached_at;
+    this.state.revocationCursor = snapshot.revocation_cursor;
+    this.state.issuerKeys = snapshot.issuer_keys;
+    this.state.issuerKeysCachedAt = snapshot.issuer_keys_cached_at;
+    this.state.trustNetworkMembers = snapshot.trust_network_members;
+    this.state.trustNetworksCachedAt = snapshot.trust_networks_cached_at;
+    this.rebuildIssuerTrust();
+    this.lastSnapshotStamp = this.snapshotStamp();
+    
+    console.error(`Loaded cache snapshot saved at ${snapshot.saved_at}`);
+    return true;
   }
   
   // ==========================================================================
   // HELPERS
   // ==========================================================================
   
+  /**
+   * Hash a fetched catalog as published and check it against the API's
+   * content_hash and signature
+   * 
+   * @throws Error if the catalog fails verification
+   */
+  private verifyCatalogContent(
+    version: number,
+    published_at: string | undefined,
+    data: { permissions?: CatalogPermission[]; content_hash?: string; signature?: string }
+  ): string {
+    const permissions: Record<string, CatalogPermission> = {};
+    for (const perm of data.permissions ?? []) {
+      permissions[perm.permission_key] = perm;
+    }
+    const contentHash = computeCatalogContentHash({ gate_id: this.gateId, version, published_at, permissions });
+    
+    if (data.content_hash !== undefined && data.content_hash !== contentHash) {
+      throw new Error(`Catalog ${version} content hash mismatch`);
+    }
+    
+    const verification = this.config.catalog_verification;
+    if (data.signature !== undefined && verification?.public_key) {
+      if (!verifyJws(data.signature, verification.public_key, contentHash)) {
+        throw new Error(`Catalog ${version} signature is invalid`);
+      }
+    } else if (verification?.require_signature) {
+      throw new Error(`Catalog ${version} is unsigned or no catalog public_key is configured`);
+    }
+    
+    return contentHash;
+  }
+  
+  private withContentHash(gateId: string, catalogVersion: CatalogVersion): CatalogVersion {
+    if (catalogVersion.content_hash) return catalogVersion;
+    return {
+      ...catalogVersion,
+      content_hash: computeCatalogContentHash({
+        gate_id: gateId,
+        version: catalogVersion.version,
+        published_at: catalogVersion.published_at,
+        permissions: catalogVersion.permissionsByKey,
+      }),
+    };
+  }
+  
+  private requireSigner(): GateSigner {
+    if (!this.signer) {
+      throw new Error('cache.snapshot requires a gate signer');
+    }
+    return this.signer;
+  }
+  
+  /**
+   * Identifies the cache contents by when each part was fetched
+   */
+  private snapshotStamp(): string {
+    return [
+      this.state.catalog?.cached_at,
+      this.state.revocationCachedAt,
+      this.state.issuerKeysCachedAt,
+      this.state.trustNetworksCachedAt,
+    ].join(':');
+  }
+  
+  
+  private rebuildIssuerTrust(): void {
+    const issuerTrust: Record<string, number> = { ...this.trustedIssuers };
+    
+    for (const members of Object.values(this.state.trustNetworkMembers)) {
+      for (const [issuerId, level] of Object.entries(members)) {
+        issuerTrust[issuerId] = Math.max(issuerTrust[issuerId] ?? level, level);
+      }
+    }
+    
+    this.state.issuerTrust = issuerTrust;
+  }
+  
   private buildPermissionIndex(
     permissions: Array<{
       permission_key: string;
@@ -258,6 +1031,7 @@ export class CacheManager {
       constraints?: Record<string, unknown>;
       default_template?: string;
       required_constraints?: string[];
+      trust_level_required?: number;
     }>
   ): Record<string, CatalogPermission> {
     const index: Record<string, CatalogPermission> = {};
@@ -271,6 +1045,7 @@ export class CacheManager {
         constraints: perm.constraints ?? {},
         default_template: perm.default_template,
         required_constraints: perm.required_constraints,
+        trust_level_required: perm.trust_level_required,
       };
     }
     
@@ -315,7 +1090,7 @@ export class CacheManager {
 
 export function createMockCache(
   permissions: CatalogPermission[],
-  issuerKeys: Record<string, string> = {},
+  issuerKeys: IssuerKeys = {},
   revocations: string[] = []
 ): CacheManager {
   const mockConfig: UniplexMCPServerConfig = {
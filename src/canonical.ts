@@ -0,0 +1,61 @@
+/**
+ * Uniplex MCP Server - Canonical JSON Module
+ * Version: 1.0.0
+ *
+ * JSON Canonicalization Scheme (RFC 8785). Every payload that is signed or
+ * verified — passports, attestations, receipts — is serialized with
+ * canonicalize() so signatures are independent of key order and number
+ * formatting in the producing SDK.
+ *
+ * Cross-ref: MCP Server Spec Section 0.2 (Attestation Integrity Invariant)
+ */
+
+const LONE_SURROGATE = /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/;
+
+/**
+ * Serialize a JSON value per RFC 8785.
+ *
+ * - Object members are sorted by UTF-16 code units of their names
+ * - Numbers use the ECMAScript shortest round-trip form (RFC 8785 §3.2.2.3)
+ * - Strings use minimal escaping (RFC 8785 §3.2.2.2)
+ * - Object members whose value is undefined are omitted, as in JSON.stringify
+ *
+ * @throws Error on values JSON cannot represent (NaN, Infinity, bigint,
+ *   functions) and on strings containing lone surrogates
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null) return 'null';
+
+  switch (typeof value) {
+    case 'boolean':
+      return value ? 'true' : 'false';
+
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new Error(`Cannot canonicalize non-finite number: ${value}`);
+      }
+      // ECMAScript Number-to-String is the serialization RFC 8785 mandates
+      return JSON.stringify(value);
+
+    case 'string':
+      if (LONE_SURROGATE.test(value)) {
+        throw new Error('Cannot canonicalize string with lone surrogates');
+      }
+      return JSON.stringify(value);
+
+    case 'object': {
+      if (Array.isArray(value)) {
+        return `[${value.map(item => item === undefined ? 'null' : canonicalize(item)).join(',')}]`;
+      }
+
+      const members = Object.keys(value as Record<string, unknown>)
+        .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+        .sort()
+        .map(key => `${canonicalize(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+      return `{${members.join(',')}}`;
+    }
+
+    default:
+      throw new Error(`Cannot canonicalize value of type ${typeof value}`);
+  }
+}
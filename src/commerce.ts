@@ -23,6 +23,7 @@ import {
   extractPricingConstraints,
   extractPlatformFeeConstraints,
 } from './types.js';
+import { canonicalize } from './canonical.js';
 
 // =============================================================================
 // CONSUMPTION ATTESTATION GENERATION
@@ -121,8 +122,8 @@ export async function issueConsumptionAttestation(
     consumption,
   };
   
-  // Canonical JSON for signing
-  const canonicalJson = JSON.stringify(attestationPayload);
+  // Canonical JSON for signing (RFC 8785)
+  const canonicalJson = canonicalize(attestationPayload);
   
   // Sign the attestation
   const signature = await sign(canonicalJson);
@@ -171,9 +172,9 @@ export async function verifyConsumptionAttestation(
     };
   }
   
-  // Reconstruct canonical JSON (without proof)
+  // Reconstruct canonical JSON (without proof, RFC 8785)
   const { proof, ...payloadWithoutProof } = attestation;
-  const canonicalJson = JSON.stringify(payloadWithoutProof);
+  const canonicalJson = canonicalize(payloadWithoutProof);
   
   // Verify signature
   const signatureValid = await verify(canonicalJson, proof.sig, gate_public_key);
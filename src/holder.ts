@@ -0,0 +1,206 @@
+/**
+ * Uniplex MCP Server - Holder Binding Module
+ * Version: 1.0.0
+ *
+ * Proof of possession for passports bound to an agent key (`cnf`).
+ * Each tool call carries a holder proof in _meta.uniplex_proof: a compact
+ * JWS signed with the agent's key over the gate, the passport, a fresh
+ * nonce, the tool name and the canonical input hash. A copied passport is
+ * useless without the key, and a nonce cache stops a captured proof from
+ * being replayed.
+ *
+ * Proofs are checked synchronously by verifyLocally; the nonce is recorded
+ * afterwards, because a shared NonceCache is a network call.
+ *
+ * Cross-ref: MCP Server Spec Section 3.1 (Pre-Execution Check)
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  GateSigner,
+  HolderNonce,
+  HolderProofClaims,
+  NonceCache,
+  PassportConfirmation,
+} from './types.js';
+import { canonicalize } from './canonical.js';
+import { hashToolInput } from './approval.js';
+import { signJws, verifyJws, bytesToHex, base64UrlDecode, base64UrlEncode } from './signing.js';
+import type { RedisLikeClient } from './ratelimit.js';
+
+export const DEFAULT_PROOF_MAX_AGE_SECONDS = 300;
+
+const HOLDER_PROOF_TYPE = 'uniplex-holder-proof';
+const NONCE_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// =============================================================================
+// NONCE CACHE (LOCAL, IN-MEMORY)
+// =============================================================================
+
+export class InMemoryNonceCache implements NonceCache {
+  private nonces: Map<string, number> = new Map();  // key -> expiry (ms)
+  private nextSweep = 0;
+
+  async add(key: string, expiresAt: number, now: number = Date.now()): Promise<boolean> {
+    if (now >= this.nextSweep) {
+      this.cleanupExpired(now);
+      this.nextSweep = now + NONCE_SWEEP_INTERVAL_MS;
+    }
+
+    const existing = this.nonces.get(key);
+    if (existing !== undefined && existing > now) return false;
+
+    this.nonces.set(key, expiresAt);
+    return true;
+  }
+
+  /**
+   * Forget nonces whose proofs have expired
+   */
+  cleanupExpired(now: number = Date.now()): number {
+    let cleaned = 0;
+    for (const [key, expiresAt] of this.nonces) {
+      if (expiresAt <= now) {
+        this.nonces.delete(key);
+        cleaned++;
+      }
+    }
+    return cleaned;
+  }
+
+  get size(): number {
+    return this.nonces.size;
+  }
+}
+
+// =============================================================================
+// REDIS-COMPATIBLE NONCE CACHE
+// =============================================================================
+
+// SET NX is the check and the write in one step; PX drops the nonce once
+// its proof has expired. ARGV: expiry (ms since epoch), now.
+const REDIS_NONCE_SCRIPT = `
+local ttl = tonumber(ARGV[1]) - tonumber(ARGV[2])
+if ttl < 1 then ttl = 1 end
+if redis.call('SET', KEYS[1], '1', 'NX', 'PX', ttl) then return 1 end
+return 0
+`;
+
+/**
+ * Nonce cache shared by every replica of a gate, on a Redis-compatible
+ * server. Use it whenever more than one process serves the same gate.
+ */
+export class RedisNonceCache implements NonceCache {
+  private prefix: string;
+
+  constructor(private client: RedisLikeClient, options: { prefix?: string } = {}) {
+    this.prefix = options.prefix ?? 'uniplex:nonce:';
+  }
+
+  async add(key: string, expiresAt: number, now: number = Date.now()): Promise<boolean> {
+    const result = await this.client.eval(REDIS_NONCE_SCRIPT, 1, `${this.prefix}${key}`, expiresAt, now);
+    return Number(result) === 1;
+  }
+}
+
+// =============================================================================
+// HOLDER PROOFS
+// =============================================================================
+
+/**
+ * The call a holder proof is presented with
+ */
+export interface HolderProofBinding {
+  gate_id: string;
+  passport_id: string;
+  tool: string;
+  input: unknown;
+}
+
+export interface HolderProofOptions {
+  maxAgeSeconds?: number;     // default: DEFAULT_PROOF_MAX_AGE_SECONDS
+  clockSkewSeconds?: number;  // default: 0
+  now?: number;               // ms, default Date.now()
+}
+
+/**
+ * A valid proof names the nonce to record (NonceCache.add) before the
+ * call runs, and until when
+ */
+export type HolderProofCheck =
+  | { valid: true; nonce: HolderNonce }
+  | { valid: false; reason: string };
+
+/**
+ * Sign a holder proof for one tool call with the agent's key
+ * (the key whose public half is the passport's cnf)
+ */
+export async function createHolderProof(
+  signer: GateSigner,
+  call: HolderProofBinding & { nonce?: string; iat?: number }
+): Promise<string> {
+  const claims: HolderProofClaims = {
+    typ: HOLDER_PROOF_TYPE,
+    aud: call.gate_id,
+    passport_id: call.passport_id,
+    nonce: call.nonce ?? randomUUID(),
+    tool: call.tool,
+    input_hash: hashToolInput(call.input),
+    iat: call.iat ?? Math.floor(Date.now() / 1000),
+  };
+  return signJws(canonicalize(claims), signer);
+}
+
+/**
+ * Build the cnf claim for an agent key
+ */
+export async function holderConfirmation(signer: GateSigner): Promise<PassportConfirmation> {
+  return { jwk: { kty: 'OKP', crv: 'Ed25519', x: base64UrlEncode(await signer.getPublicKey()) } };
+}
+
+/**
+ * Check a holder proof against the passport's cnf key and the call it
+ * came with. Record the returned nonce before running the call, so the
+ * proof can't be replayed.
+ */
+export function verifyHolderProof(
+  proof: string | undefined,
+  cnf: PassportConfirmation,
+  binding: HolderProofBinding,
+  options: HolderProofOptions = {}
+): HolderProofCheck {
+  if (!proof) {
+    return { valid: false, reason: 'Passport is holder-bound; a proof of possession is required' };
+  }
+
+  if (!verifyJws(proof, bytesToHex(base64UrlDecode(cnf.jwk.x)))) {
+    return { valid: false, reason: 'Holder proof signature is invalid' };
+  }
+
+  let claims: Partial<HolderProofClaims>;
+  try {
+    claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(proof.split('.')[1])));
+  } catch {
+    return { valid: false, reason: 'Holder proof is malformed' };
+  }
+  if (claims.typ !== HOLDER_PROOF_TYPE || typeof claims.nonce !== 'string' || !claims.nonce
+      || typeof claims.iat !== 'number') {
+    return { valid: false, reason: 'Not a holder proof' };
+  }
+
+  if (claims.aud !== binding.gate_id || claims.passport_id !== binding.passport_id) {
+    return { valid: false, reason: 'Holder proof was made for a different gate or passport' };
+  }
+  if (claims.tool !== binding.tool || claims.input_hash !== hashToolInput(binding.input)) {
+    return { valid: false, reason: 'Holder proof was made for a different call' };
+  }
+
+  const now = options.now ?? Date.now();
+  const skewMs = (options.clockSkewSeconds ?? 0) * 1000;
+  const expiresAt = (claims.iat + (options.maxAgeSeconds ?? DEFAULT_PROOF_MAX_AGE_SECONDS)) * 1000 + skewMs;
+  if (claims.iat * 1000 > now + skewMs || expiresAt < now) {
+    return { valid: false, reason: 'Holder proof has expired or is not yet valid' };
+  }
+
+  return { valid: true, nonce: { key: `${binding.passport_id}:${claims.nonce}`, expires_at: expiresAt } };
+}
@@ -1,7 +1,7 @@
 #!/usr/bin/env node
 /**
  * Uniplex MCP Server - Entry Point
- * Version: 1.2.0
+ * Version: 2.0.0
  *
  * Usage:
  *   npx uniplex-mcp-sdk --config config.json
@@ -92,6 +92,27 @@ function loadConfig(): UniplexMCPServerConfig {
   };
 }
 
+/**
+ * Port from --http <port> or UNIPLEX_HTTP_PORT; undefined serves stdio
+ */
+function parseHttpPort(): number | undefined {
+  const httpArgIndex = process.argv.indexOf('--http');
+  const value = httpArgIndex !== -1
+    ? process.argv[httpArgIndex + 1]
+    : process.env.UNIPLEX_HTTP_PORT || undefined;
+
+  if (httpArgIndex === -1 && value === undefined) return undefined;
+
+  const port = Number(value);
+  if (!/^\d+$/.test(value ?? '') || port < 1 || port > 65535) {
+    console.error(`Error: HTTP port must be an integer from 1 to 65535, got ${value ?? 'nothing'}`);
+    console.error('Usage: uniplex-mcp-server --config config.json --http <port>');
+    console.error('   or: UNIPLEX_HTTP_PORT=<port> uniplex-mcp-server --config config.json');
+    process.exit(1);
+  }
+  return port;
+}
+
 // =============================================================================
 // MAIN
 // =============================================================================
@@ -100,13 +121,14 @@ async function main(): Promise<void> {
   // Check for help
   if (process.argv.includes('--help') || process.argv.includes('-h')) {
     console.log(`
-Uniplex MCP Server v1.2.0
+Uniplex MCP Server v2.0.0
 
 USAGE:
   uniplex-mcp-server [OPTIONS]
 
 OPTIONS:
   -c, --config <path>   Path to config file (JSON)
+  --http <port>         Serve over streamable HTTP (+ SSE fallback) instead of stdio
   -h, --help           Show this help message
   -v, --version        Show version
 
@@ -117,6 +139,8 @@ ENVIRONMENT VARIABLES:
   UNIPLEX_TRUSTED_ISSUERS      Comma-separated list of trusted issuer IDs
   UNIPLEX_SAFE_DEFAULT         Enable safe default passports (default: true)
   UNIPLEX_AUDIT                Enable audit logging (default: true)
+  UNIPLEX_HTTP_PORT            Serve over HTTP on this port instead of stdio
+  UNIPLEX_SIGNING_KEY          Gate Ed25519 signing key (hex seed or PKCS#8 PEM)
 
 EXAMPLES:
   # With config file
@@ -125,6 +149,9 @@ EXAMPLES:
   # With environment variables
   UNIPLEX_GATE_ID=gate_travel uniplex-mcp-server
 
+  # As a shared HTTP service
+  uniplex-mcp-server --config ./config.json --http 3000
+
 CONFIG FILE FORMAT:
   {
     "gate_id": "gate_my-api",
@@ -149,10 +176,12 @@ CONFIG FILE FORMAT:
 
   // Check for version
   if (process.argv.includes('--version') || process.argv.includes('-v')) {
-    console.log('1.2.0');
+    console.log('2.0.0');
     process.exit(0);
   }
 
+  const httpPort = parseHttpPort();
+
   // Load config and start server
   const config = loadConfig();
   const server = new UniplexMCPServer(config);
@@ -171,7 +200,11 @@ CONFIG FILE FORMAT:
   });
 
   // Run server
-  await server.run();
+  if (httpPort !== undefined) {
+    await server.runHttp({ port: httpPort });
+  } else {
+    await server.run();
+  }
 }
 
 main().catch(error => {
@@ -186,11 +219,80 @@ main().catch(error => {
 export { UniplexMCPServer } from './server.js';
 export { UniplexMCPServerConfig, ToolDefinition } from './types.js';
 export { transformToCanonical, dollarsToCents } from './transforms.js';
-export { verifyLocally, InMemoryRateLimiter } from './verification.js';
-export { CacheManager } from './cache.js';
-export { SessionManager } from './session.js';
+export {
+  verifyLocally,
+  validatePassport,
+  buildPassportIndex,
+  resolvePermission,
+  hasPermission,
+  canonicalPassportPayload,
+  issuerKeyCandidates,
+  decodePassportJws,
+  encodePassportAsJws,
+  TRUST_NETWORK_AUDIENCE_PREFIX,
+} from './verification.js';
+export {
+  LocalRateLimiter,
+  InMemoryRateLimiter,
+  SlidingLogRateLimiter,
+  SlidingWindowRateLimiter,
+  TokenBucketRateLimiter,
+  SharedRateLimiter,
+  InMemoryRateLimitStore,
+  RedisRateLimitStore,
+  REDIS_RATE_LIMIT_SCRIPTS,
+  rateLimitsFromConstraints,
+  RATE_LIMIT_WINDOWS,
+} from './ratelimit.js';
+export type { RedisLikeClient } from './ratelimit.js';
+export { canonicalize } from './canonical.js';
+export { CacheManager, computeCatalogContentHash } from './cache.js';
+export {
+  signWebhook,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from './push.js';
+export { SessionManager, InMemorySessionStore, FileSessionStore } from './session.js';
+export { ApprovalManager, InMemoryApprovalStore, hashToolInput } from './approval.js';
+export {
+  InMemoryNonceCache,
+  RedisNonceCache,
+  createHolderProof,
+  holderConfirmation,
+  verifyHolderProof,
+  DEFAULT_PROOF_MAX_AGE_SECONDS,
+} from './holder.js';
+export { CumulativeSpendTracker, FileSpendStore } from './spend.js';
 export { defineTool, ToolBuilder, ToolRegistry, buildRequestContext } from './tools/wrapper.js';
 
+// Custom method exports (uniplex/* protocol extensions)
+export {
+  UNIPLEX_METHODS,
+  UNIPLEX_ERROR_CODES,
+  CatalogRequestSchema,
+  SessionRequestSchema,
+  PresentPassportRequestSchema,
+  RequestPassportRequestSchema,
+  RequestApprovalRequestSchema,
+  JwksRequestSchema,
+  ApprovalStatusRequestSchema,
+  PassportSchema,
+} from './methods.js';
+
+// Gate signing key exports (attestation JWS + JWKS)
+export {
+  Ed25519Signer,
+  createGateSigner,
+  loadSigningKey,
+  signJws,
+  signDetachedJws,
+  verifyJws,
+  verifyDetachedJws,
+  verifyAttestation,
+  publicKeyFromJwks,
+} from './signing.js';
+
 // Commerce exports (Uni-Commerce profile)
 export {
   issueConsumptionAttestation,
@@ -205,6 +307,7 @@ export {
 export {
   DenyReason,
   DenialCode,
+  GateDenyReason,
   OBLIGATION_TOKENS,
   CONSTRAINT_KEYS,
   evaluateConstraints,
@@ -226,6 +329,7 @@ export type {
   ObligationToken,
   ConstraintKey,
   VerifyResult,
+  DenyCode,
 } from './types.js';
 
 // Export remaining types
@@ -236,16 +340,70 @@ export type {
   CatalogVersion,
   VerifyDenial,
   RateLimiter,
+  RateLimitWindow,
+  RateLimitStatus,
+  RateLimitAlgorithm,
+  RateLimitStore,
+  RateLimitConsumeResult,
+  RateLimitConfig,
   ConstraintMapping,
   Session,
+  SessionStore,
+  SessionConfig,
+  PassportValidityConfig,
+  AudienceConfig,
+  HolderBindingConfig,
+  PassportConfirmation,
+  HolderProofClaims,
+  NonceCache,
+  HolderNonce,
+  SpendTracker,
+  SpendReservation,
+  SpendStore,
+  SpendRecord,
+  SpendConfig,
   SessionState,
   SafeDefaultConfig,
   CacheConfig,
+  CacheFreshness,
+  CacheSnapshotConfig,
+  CacheSnapshot,
+  RefreshBackoffConfig,
+  CacheResource,
+  RefreshOutcome,
+  CacheRefreshStats,
+  CachePushConfig,
+  CachePushWebhookConfig,
+  CachePushEvent,
+  CatalogVerificationConfig,
+  IssuerJwk,
+  IssuerKeyset,
+  IssuerKeys,
+  IssuerKeyStatus,
+  PassportJwtClaims,
+  FailMode,
+  StaleCache,
   AuditConfig,
   CommerceConfig,
+  SigningKeyConfig,
+  GateSigner,
+  GateJwk,
+  GateJwks,
   ServerCapabilities,
   UniplexCapabilities,
+  HttpServerOptions,
+  UniplexCatalogResult,
+  UniplexSessionResult,
+  UniplexPresentPassportResult,
+  UniplexRequestPassportResult,
+  UniplexRequestApprovalResult,
+  UniplexApprovalStatusResult,
+  PendingApproval,
+  ApprovalStatus,
+  ApprovalStore,
+  ApprovalConfig,
   Attestation,
+  AttestationApproval,
   ConsumptionAttestation,
   ConsumptionData,
   PricingConstraints,
@@ -0,0 +1,166 @@
+/**
+ * Uniplex MCP Server - Custom Methods Module
+ * Version: 1.0.0
+ *
+ * JSON-RPC method names, request schemas and error codes for the
+ * uniplex/* protocol extensions exposed alongside the standard MCP methods.
+ *
+ * Cross-ref: MCP Server Spec Section 4 (Protocol Extensions)
+ */
+
+import { z } from 'zod';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+
+// =============================================================================
+// METHOD NAMES
+// =============================================================================
+
+export const UNIPLEX_METHODS = {
+  CATALOG: 'uniplex/catalog',
+  SESSION: 'uniplex/session',
+  PRESENT_PASSPORT: 'uniplex/present-passport',
+  REQUEST_PASSPORT: 'uniplex/request-passport',
+  REQUEST_APPROVAL: 'uniplex/request-approval',
+  JWKS: 'uniplex/jwks',
+  APPROVAL_STATUS: 'uniplex/approval-status',
+} as const;
+
+export type UniplexMethod = typeof UNIPLEX_METHODS[keyof typeof UNIPLEX_METHODS];
+
+// =============================================================================
+// ERROR CODES
+// =============================================================================
+
+/**
+ * JSON-RPC error codes for uniplex/* methods.
+ *
+ * Allocated from the implementation-defined server error range
+ * (-32000 to -32099), below the codes reserved by the MCP SDK.
+ */
+export const UNIPLEX_ERROR_CODES = {
+  CATALOG_NOT_LOADED: -32050,
+  SESSION_NOT_FOUND: -32051,
+  INVALID_PERMISSIONS: -32052,
+  PASSPORT_REQUEST_FAILED: -32053,
+  APPROVAL_REQUEST_FAILED: -32054,
+  PASSPORT_REJECTED: -32055,
+  APPROVAL_NOT_FOUND: -32056,
+} as const;
+
+export type UniplexErrorCode = typeof UNIPLEX_ERROR_CODES[keyof typeof UNIPLEX_ERROR_CODES];
+
+/**
+ * Create a JSON-RPC error for a uniplex/* method.
+ * `data.uniplex_error` carries a stable string code for clients.
+ */
+export function uniplexError(
+  code: UniplexErrorCode,
+  message: string,
+  data?: Record<string, unknown>
+): McpError {
+  const name = Object.entries(UNIPLEX_ERROR_CODES).find(([, v]) => v === code)?.[0];
+  return new McpError(code, message, {
+    uniplex_error: name?.toLowerCase(),
+    ...data,
+  });
+}
+
+// =============================================================================
+// PASSPORT SCHEMA
+// =============================================================================
+
+/**
+ * Wire form of a passport presented by an agent (no claimsByKey index).
+ * Unknown fields are stripped; they are not covered by the signature.
+ */
+export const PassportSchema = z.object({
+  passport_id: z.string(),
+  issuer_id: z.string(),
+  agent_id: z.string(),
+  gate_id: z.string(),
+  permissions: z.array(z.object({
+    permission_key: z.string(),
+    constraints: z.record(z.string(), z.unknown()),
+  })),
+  constraints: z.record(z.string(), z.unknown()),
+  signature: z.string(),
+  kid: z.string().optional(),
+  audience: z.array(z.string()).optional(),
+  cnf: z.object({
+    jwk: z.object({ kty: z.literal('OKP'), crv: z.literal('Ed25519'), x: z.string() }),
+  }).optional(),
+  expires_at: z.string(),
+  issued_at: z.string(),
+  not_before: z.string().optional(),
+  catalog_version_pin: z.record(z.string(), z.number()).optional(),
+});
+
+// =============================================================================
+// REQUEST SCHEMAS
+// =============================================================================
+
+const RequestMetaSchema = z.object({
+  sessionId: z.string().optional(),
+}).passthrough();
+
+const BaseParamsSchema = z.object({
+  _meta: RequestMetaSchema.optional(),
+}).passthrough();
+
+export const CatalogRequestSchema = z.object({
+  method: z.literal(UNIPLEX_METHODS.CATALOG),
+  params: BaseParamsSchema.optional(),
+});
+
+export const SessionRequestSchema = z.object({
+  method: z.literal(UNIPLEX_METHODS.SESSION),
+  params: BaseParamsSchema.optional(),
+});
+
+export const PresentPassportRequestSchema = z.object({
+  method: z.literal(UNIPLEX_METHODS.PRESENT_PASSPORT),
+  params: BaseParamsSchema.extend({
+    passport: z.union([PassportSchema, z.string()]),  // JSON or compact JWS
+  }),
+});
+
+export const RequestPassportRequestSchema = z.object({
+  method: z.literal(UNIPLEX_METHODS.REQUEST_PASSPORT),
+  params: BaseParamsSchema.extend({
+    permissions: z.array(z.string()),
+    template: z.string().optional(),
+    agent_id: z.string().optional(),
+    justification: z.string().optional(),
+  }),
+});
+
+export const RequestApprovalRequestSchema = z.object({
+  method: z.literal(UNIPLEX_METHODS.REQUEST_APPROVAL),
+  params: BaseParamsSchema.extend({
+    permissions: z.array(z.string()),
+    reason: z.string().optional(),
+    // Bind the approval to one call (replayed with the approval token)
+    tool: z.string().optional(),
+    arguments: z.record(z.string(), z.unknown()).optional(),
+  }),
+});
+
+export const ApprovalStatusRequestSchema = z.object({
+  method: z.literal(UNIPLEX_METHODS.APPROVAL_STATUS),
+  params: BaseParamsSchema.extend({
+    approval_id: z.string(),
+  }),
+});
+
+export const JwksRequestSchema = z.object({
+  method: z.literal(UNIPLEX_METHODS.JWKS),
+  params: BaseParamsSchema.optional(),
+});
+
+export type CatalogRequest = z.infer<typeof CatalogRequestSchema>;
+export type SessionRequest = z.infer<typeof SessionRequestSchema>;
+export type PresentPassportRequest = z.infer<typeof PresentPassportRequestSchema>;
+export type RequestPassportRequest = z.infer<typeof RequestPassportRequestSchema>;
+export type RequestApprovalRequest = z.infer<typeof RequestApprovalRequestSchema>;
+export type JwksRequest = z.infer<typeof JwksRequestSchema>;
+export type ApprovalStatusRequest = z.infer<typeof ApprovalStatusRequestSchema>;
@@ -0,0 +1,132 @@
+/**
+ * Uniplex MCP Server - Push Module
+ * Version: 1.0.0
+ *
+ * Transport helpers for push-based cache invalidation: parsing the
+ * Uniplex event stream (SSE) and verifying HMAC-signed webhooks.
+ * Events are applied by CacheManager.
+ *
+ * Cross-ref: MCP Server Spec Section 1.3 (Local-First Verification)
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { CachePushEvent } from './types.js';
+
+// Webhooks older than this are rejected as replays
+export const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-uniplex-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-uniplex-timestamp';
+
+// =============================================================================
+// SERVER-SENT EVENTS
+// =============================================================================
+
+export interface SseMessage {
+  id?: string;
+  event?: string;
+  data: string;  // empty for heartbeats (comment lines)
+}
+
+/**
+ * Split an SSE byte stream into messages.
+ * Comment lines (heartbeats) yield a message with empty data, so callers
+ * can tell the stream is still alive.
+ */
+export async function* readSseMessages(body: AsyncIterable<Uint8Array>): AsyncGenerator<SseMessage> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let message: SseMessage = { data: '' };
+  let dataLines: string[] = [];
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.search(/\r?\n/)) !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + (buffer[newline] === '\r' ? 2 : 1));
+
+      if (line === '') {
+        if (dataLines.length) {
+          yield { ...message, data: dataLines.join('\n') };
+        }
+        message = { data: '' };
+        dataLines = [];
+        continue;
+      }
+
+      if (line.startsWith(':')) {
+        yield { data: '' };
+        continue;
+      }
+
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+      if (field === 'data') dataLines.push(value);
+      else if (field === 'id') message.id = value;
+      else if (field === 'event') message.event = value;
+    }
+  }
+}
+
+// =============================================================================
+// WEBHOOKS
+// =============================================================================
+
+/**
+ * Sign a webhook body: hex HMAC-SHA256 over `${timestamp}.${body}`
+ * keyed with the gate secret, sent as `sha256=<hex>`
+ */
+export function signWebhook(secret: string, body: string, timestamp: number): string {
+  const mac = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${mac}`;
+}
+
+/**
+ * Verify a webhook signature and that its timestamp (Unix seconds)
+ * is within WEBHOOK_TOLERANCE_SECONDS of now
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  timestamp: string | undefined,
+  signature: string | undefined,
+  now: number = Date.now()
+): boolean {
+  if (!timestamp || !signature || !/^\d+$/.test(timestamp)) return false;
+  if (Math.abs(now / 1000 - Number(timestamp)) > WEBHOOK_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(signWebhook(secret, body, Number(timestamp)));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// =============================================================================
+// EVENTS
+// =============================================================================
+
+/**
+ * Parse a push event, returning undefined for unknown or malformed events
+ */
+export function parsePushEvent(data: string): CachePushEvent | undefined {
+  let event: Partial<CachePushEvent> & Record<string, unknown>;
+  try {
+    event = JSON.parse(data);
+  } catch {
+    return undefined;
+  }
+
+  const isIdList = (value: unknown) =>
+    value === undefined || (Array.isArray(value) && value.every(id => typeof id === 'string'));
+
+  if (event?.type === 'revocations' && isIdList(event.added) && isIdList(event.removed)) {
+    return event as CachePushEvent;
+  }
+  if (event?.type === 'catalog' && typeof event.version === 'number') {
+    return event as CachePushEvent;
+  }
+  return undefined;
+}
@@ -0,0 +1,712 @@
+/**
+ * Uniplex MCP Server - Rate Limit Module
+ * Version: 1.0.0
+ *
+ * Rate limiters for Step 9 of local verification:
+ *   - fixed_window:   counter reset every window (allows 2× bursts at edges)
+ *   - sliding_log:    exact, one timestamp per call in the window
+ *   - sliding_window: weighted previous + current window counters
+ *   - token_bucket:   `max` tokens refilled evenly over the window
+ *
+ * LocalRateLimiter keeps counters in process (used by verifyLocally).
+ * SharedRateLimiter keeps them in a RateLimitStore so gate replicas share
+ * counters; it is async and consulted after local verification.
+ *
+ * Cross-ref: MCP Server Spec Section 1.3 (Step 9)
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  RateLimiter,
+  RateLimitWindow,
+  RateLimitAlgorithm,
+  RateLimitStore,
+  RateLimitStatus,
+  RateLimitConsumeResult,
+} from './types.js';
+
+// =============================================================================
+// LIMITS
+// =============================================================================
+
+/**
+ * Rate constraint key → window length
+ */
+export const RATE_LIMIT_WINDOWS: Record<string, number> = {
+  'core:rate:max_per_minute': 60 * 1000,
+  'core:rate:max_per_hour': 60 * 60 * 1000,
+  'core:rate:max_per_day': 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Rate limit windows from (merged) constraints
+ */
+export function rateLimitsFromConstraints(constraints: Record<string, unknown>): RateLimitWindow[] {
+  const limits: RateLimitWindow[] = [];
+  for (const [key, windowMs] of Object.entries(RATE_LIMIT_WINDOWS)) {
+    const max = constraints[key];
+    if (typeof max === 'number') {
+      limits.push({ max, windowMs });
+    }
+  }
+  return limits;
+}
+
+/**
+ * Configured windows plus per-call windows; the tightest limit wins
+ * when both set the same window
+ */
+function mergeLimits(
+  configured: Map<number, number> | undefined,
+  limits: RateLimitWindow[] = []
+): RateLimitWindow[] {
+  const windows = new Map(configured);
+  for (const { max, windowMs } of limits) {
+    const current = windows.get(windowMs);
+    windows.set(windowMs, current === undefined ? max : Math.min(current, max));
+  }
+  return Array.from(windows, ([windowMs, max]) => ({ max, windowMs }));
+}
+
+function bucketKey(action: string, passportId?: string): string {
+  return passportId ? `${action}:${passportId}` : action;
+}
+
+const BUCKET_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Algorithm states per bucket (windowMs -> state), dropped once every
+ * window has replenished so idle passports don't accumulate
+ */
+class BucketStates {
+  private buckets: Map<string, { states: Map<number, unknown>; expiresAt: number }> = new Map();
+  private nextSweep = 0;
+
+  get(key: string): Map<number, unknown> | undefined {
+    return this.buckets.get(key)?.states;
+  }
+
+  /**
+   * States for a call about to be counted in these windows
+   */
+  touch(key: string, limits: RateLimitWindow[], now: number): Map<number, unknown> {
+    if (now >= this.nextSweep) {
+      this.prune(now);
+      this.nextSweep = now + BUCKET_SWEEP_INTERVAL_MS;
+    }
+
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { states: new Map(), expiresAt: now };
+      this.buckets.set(key, bucket);
+    }
+    // sliding_window still weighs the previous window, so a state only
+    // stops mattering two windows after its last call
+    for (const limit of limits) {
+      bucket.expiresAt = Math.max(bucket.expiresAt, now + 2 * limit.windowMs);
+    }
+    return bucket.states;
+  }
+
+  delete(key: string): void {
+    this.buckets.delete(key);
+  }
+
+  /**
+   * Drop buckets whose windows have all replenished
+   */
+  prune(now: number = Date.now()): number {
+    let pruned = 0;
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.expiresAt <= now) {
+        this.buckets.delete(key);
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+
+  get size(): number {
+    return this.buckets.size;
+  }
+}
+
+/**
+ * Gate-configured limits per action (windowMs → max)
+ */
+class ConfiguredLimits {
+  private limits: Map<string, Map<number, number>> = new Map();
+
+  set(action: string, max: number, windowMs: number): void {
+    let windows = this.limits.get(action);
+    if (!windows) {
+      windows = new Map();
+      this.limits.set(action, windows);
+    }
+    windows.set(windowMs, max);
+  }
+
+  for(action: string, limits?: RateLimitWindow[]): RateLimitWindow[] {
+    return mergeLimits(this.limits.get(action), limits);
+  }
+}
+
+// =============================================================================
+// ALGORITHMS
+// =============================================================================
+
+/**
+ * One window's state transitions. States are plain data so stores can
+ * hold them as-is.
+ */
+interface Algorithm<S> {
+  allows(state: S | undefined, limit: RateLimitWindow, now: number): boolean;
+  consume(state: S | undefined, limit: RateLimitWindow, now: number): S;
+  inspect(state: S | undefined, limit: RateLimitWindow, now: number): WindowStatus;
+}
+
+/**
+ * Calls left in a window, when the next one is allowed and when the
+ * window is fully replenished (epoch ms)
+ */
+interface WindowStatus {
+  remaining: number;
+  retryAt: number;
+  resetAt: number;
+}
+
+interface FixedWindowState {
+  count: number;
+  resetAt: number;
+}
+
+const fixedWindow: Algorithm<FixedWindowState> = {
+  allows: (state, limit, now) => !state || state.resetAt <= now || state.count < limit.max,
+  consume: (state, limit, now) => !state || state.resetAt <= now
+    ? { count: 1, resetAt: now + limit.windowMs }
+    : { count: state.count + 1, resetAt: state.resetAt },
+  inspect: (state, limit, now) => {
+    if (!state || state.resetAt <= now) {
+      return { remaining: limit.max, retryAt: now, resetAt: now };
+    }
+    const remaining = Math.max(0, limit.max - state.count);
+    return { remaining, retryAt: remaining > 0 ? now : state.resetAt, resetAt: state.resetAt };
+  },
+};
+
+const slidingLog: Algorithm<number[]> = {
+  allows: (log = [], limit, now) => log.filter(t => t > now - limit.windowMs).length < limit.max,
+  consume: (log = [], limit, now) => [...log.filter(t => t > now - limit.windowMs), now],
+  inspect: (log = [], limit, now) => {
+    const live = log.filter(t => t > now - limit.windowMs);
+    const remaining = Math.max(0, limit.max - live.length);
+    return {
+      remaining,
+      // The call that frees a slot is the one `max` calls back
+      retryAt: remaining > 0 ? now : live[live.length - limit.max] + limit.windowMs,
+      resetAt: live.length > 0 ? live[live.length - 1] + limit.windowMs : now,
+    };
+  },
+};
+
+interface SlidingWindowState {
+  start: number;
+  current: number;
+  previous: number;
+}
+
+function rollWindow(state: SlidingWindowState | undefined, limit: RateLimitWindow, now: number): SlidingWindowState {
+  const start = now - (now % limit.windowMs);
+  if (state?.start === start) return state;
+  const previous = state?.start === start - limit.windowMs ? state.current : 0;
+  return { start, current: 0, previous };
+}
+
+const slidingWindow: Algorithm<SlidingWindowState> = {
+  allows: (state, limit, now) => {
+    const rolled = rollWindow(state, limit, now);
+    const previousWeight = (limit.windowMs - (now - rolled.start)) / limit.windowMs;
+    return rolled.previous * previousWeight + rolled.current < limit.max;
+  },
+  consume: (state, limit, now) => {
+    const rolled = rollWindow(state, limit, now);
+    return { ...rolled, current: rolled.current + 1 };
+  },
+  inspect: (state, limit, now) => {
+    const { start, current, previous } = rollWindow(state, limit, now);
+    const windowMs = limit.windowMs;
+    const estimate = previous * (windowMs - (now - start)) / windowMs + current;
+    const remaining = Math.max(0, Math.ceil(limit.max - estimate));
+
+    // Solve for when the weighted estimate drops below max
+    let retryAt = now;
+    if (remaining === 0) {
+      retryAt = current < limit.max
+        ? start + Math.ceil(windowMs * (1 - (limit.max - current) / previous))
+        : start + windowMs + Math.ceil(windowMs * (1 - limit.max / current));
+    }
+    const resetAt = current > 0 ? start + 2 * windowMs : previous > 0 ? start + windowMs : now;
+    return { remaining, retryAt: Math.max(now, retryAt), resetAt };
+  },
+};
+
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+function refill(state: TokenBucketState | undefined, limit: RateLimitWindow, now: number): TokenBucketState {
+  if (!state) return { tokens: limit.max, updatedAt: now };
+  const refilled = state.tokens + (now - state.updatedAt) * limit.max / limit.windowMs;
+  return { tokens: Math.min(limit.max, refilled), updatedAt: now };
+}
+
+const tokenBucket: Algorithm<TokenBucketState> = {
+  allows: (state, limit, now) => refill(state, limit, now).tokens >= 1,
+  consume: (state, limit, now) => {
+    const refilled = refill(state, limit, now);
+    return { tokens: refilled.tokens - 1, updatedAt: now };
+  },
+  inspect: (state, limit, now) => {
+    const { tokens } = refill(state, limit, now);
+    const msPerToken = limit.windowMs / limit.max;
+    return {
+      remaining: Math.floor(tokens),
+      retryAt: tokens >= 1 ? now : now + Math.ceil((1 - tokens) * msPerToken),
+      resetAt: now + Math.ceil((limit.max - tokens) * msPerToken),
+    };
+  },
+};
+
+const ALGORITHMS: Record<RateLimitAlgorithm, Algorithm<unknown>> = {
+  fixed_window: fixedWindow,
+  sliding_log: slidingLog,
+  sliding_window: slidingWindow,
+  token_bucket: tokenBucket,
+};
+
+/**
+ * Consume one call in every window, or in none if any window is full.
+ * Synchronous, so atomic within the process.
+ */
+function consumeAll(
+  states: Map<number, unknown>,
+  algorithm: Algorithm<unknown>,
+  limits: RateLimitWindow[],
+  now: number
+): boolean {
+  if (!limits.every(limit => algorithm.allows(states.get(limit.windowMs), limit, now))) {
+    return false;
+  }
+  for (const limit of limits) {
+    states.set(limit.windowMs, algorithm.consume(states.get(limit.windowMs), limit, now));
+  }
+  return true;
+}
+
+/**
+ * Status of the most constrained window: fewest calls left, then the
+ * longest wait
+ */
+function tightestStatus(
+  states: Map<number, unknown> | undefined,
+  algorithm: Algorithm<unknown>,
+  limits: RateLimitWindow[],
+  now: number
+): RateLimitStatus | undefined {
+  let tightest: { limit: RateLimitWindow; status: WindowStatus } | undefined;
+  for (const limit of limits) {
+    const status = algorithm.inspect(states?.get(limit.windowMs), limit, now);
+    if (
+      !tightest ||
+      status.remaining < tightest.status.remaining ||
+      (status.remaining === tightest.status.remaining && status.retryAt > tightest.status.retryAt)
+    ) {
+      tightest = { limit, status };
+    }
+  }
+  if (!tightest) return undefined;
+
+  const { limit, status } = tightest;
+  return {
+    limit: limit.max,
+    remaining: status.remaining,
+    window_seconds: limit.windowMs / 1000,
+    reset_at: new Date(status.resetAt).toISOString(),
+    ...(status.remaining === 0 && {
+      retry_after_seconds: Math.max(1, Math.ceil((status.retryAt - now) / 1000)),
+    }),
+  };
+}
+
+// =============================================================================
+// LOCAL (IN-PROCESS) RATE LIMITERS
+// =============================================================================
+
+/**
+ * Counters per (action, passport, window) in process memory. Every
+ * window that applies to a call must have room for it.
+ */
+export class LocalRateLimiter implements RateLimiter {
+  // action:passport -> windowMs -> state
+  private states = new BucketStates();
+  private limits = new ConfiguredLimits();
+  private algorithm: Algorithm<unknown>;
+
+  constructor(algorithm: RateLimitAlgorithm = 'fixed_window') {
+    this.algorithm = ALGORITHMS[algorithm];
+  }
+
+  setLimit(action: string, max: number, windowMs: number = 60000): void {
+    this.limits.set(action, max, windowMs);
+  }
+
+  check(action: string, passportId?: string, limits?: RateLimitWindow[]): boolean {
+    const states = this.states.get(bucketKey(action, passportId));
+    const now = Date.now();
+    return this.limits.for(action, limits)
+      .every(limit => this.algorithm.allows(states?.get(limit.windowMs), limit, now));
+  }
+
+  increment(action: string, passportId?: string, limits?: RateLimitWindow[]): void {
+    const windows = this.limits.for(action, limits);
+    if (windows.length === 0) return;
+
+    const now = Date.now();
+    const states = this.states.touch(bucketKey(action, passportId), windows, now);
+    for (const limit of windows) {
+      states.set(limit.windowMs, this.algorithm.consume(states.get(limit.windowMs), limit, now));
+    }
+  }
+
+  tryConsume(action: string, passportId?: string, limits?: RateLimitWindow[]): boolean {
+    const windows = this.limits.for(action, limits);
+    if (windows.length === 0) return true; // No limit configured
+    const now = Date.now();
+    return consumeAll(this.states.touch(bucketKey(action, passportId), windows, now), this.algorithm, windows, now);
+  }
+
+  status(action: string, passportId?: string, limits?: RateLimitWindow[]): RateLimitStatus | undefined {
+    return tightestStatus(
+      this.states.get(bucketKey(action, passportId)),
+      this.algorithm,
+      this.limits.for(action, limits),
+      Date.now()
+    );
+  }
+
+  reset(action: string, passportId?: string): void {
+    this.states.delete(bucketKey(action, passportId));
+  }
+
+  /**
+   * Drop counters whose windows have all replenished. Also runs
+   * periodically as calls are counted.
+   */
+  prune(now: number = Date.now()): number {
+    return this.states.prune(now);
+  }
+
+  /** Number of (action, passport) buckets held */
+  get size(): number {
+    return this.states.size;
+  }
+}
+
+/**
+ * Fixed window: a counter per window, reset when the window ends
+ */
+export class InMemoryRateLimiter extends LocalRateLimiter {
+  constructor() {
+    super('fixed_window');
+  }
+}
+
+/**
+ * Sliding log: exact count of calls in the trailing window
+ */
+export class SlidingLogRateLimiter extends LocalRateLimiter {
+  constructor() {
+    super('sliding_log');
+  }
+}
+
+/**
+ * Sliding window counter: approximates the trailing window from the
+ * current and previous fixed windows in constant memory
+ */
+export class SlidingWindowRateLimiter extends LocalRateLimiter {
+  constructor() {
+    super('sliding_window');
+  }
+}
+
+/**
+ * Token bucket: bursts up to `max`, refilled at max/window
+ */
+export class TokenBucketRateLimiter extends LocalRateLimiter {
+  constructor() {
+    super('token_bucket');
+  }
+}
+
+// =============================================================================
+// SHARED RATE LIMITING
+// =============================================================================
+
+/**
+ * Rate limiter over a shared RateLimitStore, so all gate replicas count
+ * against the same limits. Async: consulted by the server after local
+ * verification, since verifyLocally must not make network calls.
+ */
+export class SharedRateLimiter {
+  private limits = new ConfiguredLimits();
+
+  constructor(
+    private store: RateLimitStore,
+    private algorithm: RateLimitAlgorithm = 'fixed_window'
+  ) {}
+
+  setLimit(action: string, max: number, windowMs: number = 60000): void {
+    this.limits.set(action, max, windowMs);
+  }
+
+  async tryConsume(
+    action: string,
+    passportId?: string,
+    limits?: RateLimitWindow[]
+  ): Promise<RateLimitConsumeResult> {
+    const windows = this.limits.for(action, limits);
+    if (windows.length === 0) return { allowed: true };
+    return this.store.tryConsume(bucketKey(action, passportId), this.algorithm, windows, Date.now());
+  }
+
+  /**
+   * Quota of the most constrained window, if the store can report it
+   */
+  async status(action: string, passportId?: string, limits?: RateLimitWindow[]): Promise<RateLimitStatus | undefined> {
+    const windows = this.limits.for(action, limits);
+    if (windows.length === 0 || !this.store.status) return undefined;
+    return this.store.status(bucketKey(action, passportId), this.algorithm, windows, Date.now());
+  }
+}
+
+/**
+ * Default store: counters in process memory (single replica)
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private states = new BucketStates();
+
+  async tryConsume(
+    key: string,
+    algorithm: RateLimitAlgorithm,
+    limits: RateLimitWindow[],
+    now: number
+  ): Promise<RateLimitConsumeResult> {
+    const states = this.states.touch(`${algorithm}:${key}`, limits, now);
+    const allowed = consumeAll(states, ALGORITHMS[algorithm], limits, now);
+    return { allowed, status: tightestStatus(states, ALGORITHMS[algorithm], limits, now) };
+  }
+
+  async status(
+    key: string,
+    algorithm: RateLimitAlgorithm,
+    limits: RateLimitWindow[],
+    now: number
+  ): Promise<RateLimitStatus | undefined> {
+    return tightestStatus(this.states.get(`${algorithm}:${key}`), ALGORITHMS[algorithm], limits, now);
+  }
+}
+
+// =============================================================================
+// REDIS-COMPATIBLE STORE
+// =============================================================================
+
+/**
+ * The one command the Redis store needs, in ioredis' EVAL signature.
+ * Wrap other clients, e.g. node-redis:
+ *   { eval: (script, numKeys, ...args) =>
+ *       client.eval(script, { keys: args.slice(0, numKeys), arguments: args.slice(numKeys).map(String) }) }
+ */
+export interface RedisLikeClient {
+  eval(script: string, numKeys: number, ...args: Array<string | number>): Promise<unknown>;
+}
+
+// Each script checks every window (KEYS[i]) before consuming in any,
+// so a call is counted in all of its windows or in none. It replies
+// {allowed, states}: every window's state after the call, in the layout
+// of the in-memory algorithms, so the gate can work out the quota.
+// ARGV: now, unique call id (empty to only read), then max and windowMs
+// per key.
+const REDIS_SCRIPT_PREAMBLE = `
+local now = tonumber(ARGV[1])
+local consume = ARGV[2] ~= ''
+local function limit(i) return tonumber(ARGV[i * 2 + 1]), tonumber(ARGV[i * 2 + 2]) end
+local allowed = 1
+`;
+
+/** Lua per algorithm; state layout matches the in-memory algorithms */
+export const REDIS_RATE_LIMIT_SCRIPTS: Record<RateLimitAlgorithm, string> = {
+  fixed_window: REDIS_SCRIPT_PREAMBLE + `
+local counts = {}
+for i, key in ipairs(KEYS) do
+  local max = limit(i)
+  counts[i] = tonumber(redis.call('GET', key) or '0')
+  if counts[i] >= max then allowed = 0 end
+end
+local states = {}
+for i, key in ipairs(KEYS) do
+  local _, window = limit(i)
+  if consume and allowed == 1 then
+    counts[i] = redis.call('INCR', key)
+    if counts[i] == 1 then redis.call('PEXPIRE', key, window) end
+  end
+  local ttl = redis.call('PTTL', key)
+  if ttl < 0 then ttl = 0 end
+  states[i] = { counts[i], now + ttl }
+end
+return { allowed, states }
+`,
+  sliding_log: REDIS_SCRIPT_PREAMBLE + `
+for i, key in ipairs(KEYS) do
+  local max, window = limit(i)
+  redis.call('ZREMRANGEBYSCORE', key, '-inf', now - window)
+  if redis.call('ZCARD', key) >= max then allowed = 0 end
+end
+local states = {}
+for i, key in ipairs(KEYS) do
+  local max, window = limit(i)
+  if consume and allowed == 1 then
+    redis.call('ZADD', key, now, ARGV[2])
+    redis.call('PEXPIRE', key, window)
+  end
+  -- The newest max calls are all the quota depends on
+  local log = redis.call('ZRANGE', key, -max, -1, 'WITHSCORES')
+  local times = {}
+  for j = 2, #log, 2 do times[#times + 1] = tonumber(log[j]) end
+  states[i] = times
+end
+return { allowed, states }
+`,
+  sliding_window: REDIS_SCRIPT_PREAMBLE + `
+local rolled = {}
+for i, key in ipairs(KEYS) do
+  local max, window = limit(i)
+  local start = now - (now % window)
+  local state = redis.call('HMGET', key, 'start', 'current', 'previous')
+  local current, previous = tonumber(state[2]) or 0, tonumber(state[3]) or 0
+  local stateStart = tonumber(state[1])
+  if stateStart ~= start then
+    if stateStart == start - window then previous = current else previous = 0 end
+    current = 0
+  end
+  if previous * (window - (now - start)) / window + current >= max then allowed = 0 end
+  rolled[i] = { start, current, previous }
+end
+if consume and allowed == 1 then
+  for i, key in ipairs(KEYS) do
+    local _, window = limit(i)
+    rolled[i][2] = rolled[i][2] + 1
+    redis.call('HSET', key, 'start', rolled[i][1], 'current', rolled[i][2], 'previous', rolled[i][3])
+    redis.call('PEXPIRE', key, window * 2)
+  end
+end
+return { allowed, rolled }
+`,
+  token_bucket: REDIS_SCRIPT_PREAMBLE + `
+local buckets = {}
+for i, key in ipairs(KEYS) do
+  local max, window = limit(i)
+  local state = redis.call('HMGET', key, 'tokens', 'updated_at')
+  local available = tonumber(state[1]) or max
+  local updatedAt = tonumber(state[2]) or now
+  available = math.min(max, available + (now - updatedAt) * max / window)
+  if available < 1 then allowed = 0 end
+  buckets[i] = { available, now }
+end
+for i, key in ipairs(KEYS) do
+  local _, window = limit(i)
+  if consume and allowed == 1 then
+    buckets[i][1] = buckets[i][1] - 1
+    redis.call('HSET', key, 'tokens', tostring(buckets[i][1]), 'updated_at', now)
+    redis.call('PEXPIRE', key, window)
+  end
+  -- Redis truncates Lua numbers in replies; tokens are fractional
+  buckets[i][1] = tostring(buckets[i][1])
+end
+return { allowed, buckets }
+`,
+};
+
+/** Script reply state → in-memory algorithm state */
+const REDIS_STATE_DECODERS: Record<RateLimitAlgorithm, (state: unknown[]) => unknown> = {
+  fixed_window: ([count, resetAt]) => ({ count: Number(count), resetAt: Number(resetAt) }),
+  sliding_log: (times) => times.map(Number),
+  sliding_window: ([start, current, previous]) => ({
+    start: Number(start),
+    current: Number(current),
+    previous: Number(previous),
+  }),
+  token_bucket: ([tokens, updatedAt]) => ({ tokens: Number(tokens), updatedAt: Number(updatedAt) }),
+};
+
+/**
+ * Reference store for a Redis-compatible server (Redis, Valkey, KeyDB,
+ * Dragonfly, ...). Each call is one atomic EVAL. Replicas pass their own
+ * clock, so keep gate clocks in sync.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  private prefix: string;
+
+  constructor(private client: RedisLikeClient, options: { prefix?: string } = {}) {
+    this.prefix = options.prefix ?? 'uniplex:ratelimit:';
+  }
+
+  async tryConsume(
+    key: string,
+    algorithm: RateLimitAlgorithm,
+    limits: RateLimitWindow[],
+    now: number
+  ): Promise<RateLimitConsumeResult> {
+    return this.run(key, algorithm, limits, now, randomUUID());
+  }
+
+  async status(
+    key: string,
+    algorithm: RateLimitAlgorithm,
+    limits: RateLimitWindow[],
+    now: number
+  ): Promise<RateLimitStatus | undefined> {
+    return (await this.run(key, algorithm, limits, now, '')).status;
+  }
+
+  private async run(
+    key: string,
+    algorithm: RateLimitAlgorithm,
+    limits: RateLimitWindow[],
+    now: number,
+    callId: string
+  ): Promise<RateLimitConsumeResult> {
+    const keys = limits.map(limit => `${this.prefix}${algorithm}:${key}:${limit.windowMs}`);
+    const args = limits.flatMap(limit => [limit.max, limit.windowMs]);
+
+    const [allowed, replyStates] = await this.client.eval(
+      REDIS_RATE_LIMIT_SCRIPTS[algorithm],
+      keys.length,
+      ...keys,
+      now,
+      callId,
+      ...args
+    ) as [number, unknown[][]];
+
+    const decode = REDIS_STATE_DECODERS[algorithm];
+    const states = new Map(limits.map((limit, i) => {
+      const state = replyStates?.[i];
+      return [limit.windowMs, state?.length ? decode(state) : undefined];
+    }));
+    return {
+      allowed: Number(allowed) === 1,
+      status: tightestStatus(states, ALGORITHMS[algorithm], limits, now),
+    };
+  }
+}
@@ -9,34 +9,78 @@
  * Cross-ref: MCP Server Spec v1.0.0
  */
 
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import type { Server as HttpServer } from 'http';
+import { randomUUID } from 'crypto';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport, SSEServerTransportOptions } from '@modelcontextprotocol/sdk/server/sse.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ErrorCode,
+  isInitializeRequest,
 } from '@modelcontextprotocol/sdk/types.js';
 
 import {
   UniplexMCPServerConfig,
+  HttpServerOptions,
   ToolDefinition,
   ServerCapabilities,
   UniplexCapabilities,
   VerifyResult,
   RequestContext,
+  CachedCatalog,
   Attestation,
+  AttestationApproval,
+  PendingApproval,
   ConsumptionAttestation,
+  Passport,
+  PassportConfirmation,
+  GateSigner,
+  NonceCache,
+  SpendReservation,
+  GateJwks,
+  UniplexCatalogResult,
+  UniplexSessionResult,
+  UniplexPresentPassportResult,
+  UniplexRequestPassportResult,
+  UniplexRequestApprovalResult,
+  UniplexApprovalStatusResult,
+  RateLimitStatus,
+  RateLimitConsumeResult,
+  CacheResource,
+  CacheRefreshStats,
+  GateDenyReason,
 } from './types.js';
 import { CacheManager } from './cache.js';
 import { SessionManager, SessionWrapper } from './session.js';
+import { ApprovalManager } from './approval.js';
+import { CumulativeSpendTracker } from './spend.js';
+import { InMemoryNonceCache } from './holder.js';
 import {
   verifyLocally,
-  InMemoryRateLimiter,
+  VerifyLocallyParams,
+  validatePassport,
+  decodePassportJws,
+  buildPassportIndex,
   mergeConstraints,
+  rateLimited,
+  TRUST_NETWORK_AUDIENCE_PREFIX,
 } from './verification.js';
+import {
+  LocalRateLimiter,
+  SharedRateLimiter,
+  RATE_LIMIT_WINDOWS,
+  rateLimitsFromConstraints,
+} from './ratelimit.js';
 import {
   ToolRegistry,
   buildRequestContext,
   formatPermissionDenied,
+  formatApprovalPrompt,
   toMCPToolFormat,
   DenialSuggestions,
   ToolExecutionResult,
@@ -44,6 +88,54 @@ import {
 import {
   issueConsumptionAttestation,
 } from './commerce.js';
+import { canonicalize } from './canonical.js';
+import {
+  createGateSigner,
+  loadSigningKey,
+  signDetachedJws,
+  signerToJwk,
+} from './signing.js';
+import {
+  UNIPLEX_METHODS,
+  UNIPLEX_ERROR_CODES,
+  uniplexError,
+  CatalogRequestSchema,
+  SessionRequestSchema,
+  PresentPassportRequestSchema,
+  RequestPassportRequestSchema,
+  RequestApprovalRequestSchema,
+  JwksRequestSchema,
+  ApprovalStatusRequestSchema,
+  PassportSchema,
+} from './methods.js';
+
+// =============================================================================
+// HTTP TRANSPORT SESSIONS
+// =============================================================================
+
+/**
+ * One MCP server instance per HTTP session: an MCP Server can only be
+ * connected to a single transport at a time.
+ */
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+}
+
+/**
+ * DNS rebinding protection, passed to both transports
+ */
+type HttpTransportSecurity = Pick<
+  SSEServerTransportOptions,
+  'allowedHosts' | 'allowedOrigins' | 'enableDnsRebindingProtection'
+>;
+
+/**
+ * Per-request context passed by the MCP SDK to request handlers
+ */
+interface HandlerExtra {
+  sessionId?: string;
+}
 
 // =============================================================================
 // UNIPLEX MCP SERVER
@@ -55,19 +147,46 @@ export class UniplexMCPServer {
   private cacheManager: CacheManager;
   private sessionManager: SessionManager;
   private toolRegistry: ToolRegistry;
-  private rateLimiter: InMemoryRateLimiter;
+  private rateLimiter: LocalRateLimiter;
+  private sharedRateLimiter?: SharedRateLimiter;
+  private signer: GateSigner;
+  private approvalManager: ApprovalManager;
+  private spendTracker: CumulativeSpendTracker;
+  private nonceCache: NonceCache;
+  private httpServer?: HttpServer;
+  private httpSessions: Map<string, HttpSession> = new Map();
+  private httpSecurity: HttpTransportSecurity = {};
   
   constructor(config: UniplexMCPServerConfig) {
+    // Snapshots are signed with the gate key; one signed with an ephemeral
+    // key could never be read back after a restart
+    if (config.cache?.snapshot && !config.signer && !loadSigningKey(config.signing_key)) {
+      throw new Error(
+        'cache.snapshot requires a persistent gate key: set signing_key (or UNIPLEX_SIGNING_KEY) or signer'
+      );
+    }
+    
     this.config = config;
-    this.cacheManager = new CacheManager(config);
+    this.signer = createGateSigner(config);
+    this.cacheManager = new CacheManager(config, this.signer);
     this.sessionManager = new SessionManager({
       safe_default: config.safe_default,
       uniplex_api_url: config.uniplex_api_url,
       gate_id: config.gate_id,
       gate_secret: config.gate_secret,
+      ...config.session,
+      clock_skew_seconds: config.passport_validity?.clock_skew_seconds,
+      // A client that went away without closing its HTTP session
+      on_session_expired: (sessionId) => this.evictHttpSession(sessionId),
     });
     this.toolRegistry = new ToolRegistry();
-    this.rateLimiter = new InMemoryRateLimiter();
+    this.rateLimiter = new LocalRateLimiter(config.rate_limit?.algorithm);
+    if (config.rate_limit?.store) {
+      this.sharedRateLimiter = new SharedRateLimiter(config.rate_limit.store, config.rate_limit.algorithm);
+    }
+    this.approvalManager = new ApprovalManager(config.gate_id, this.signer, config.approval);
+    this.spendTracker = new CumulativeSpendTracker(config.spend?.store);
+    this.nonceCache = config.holder_binding?.nonce_cache ?? new InMemoryNonceCache();
     
     // Register tools
     this.toolRegistry.registerMany(config.tools);
@@ -75,14 +194,20 @@ export class UniplexMCPServer {
     // Configure rate limits from tools
     this.configureRateLimits();
     
-    // Create MCP server
-    this.server = new Server(
+    // Create MCP server (stdio; HTTP sessions get their own instance)
+    this.server = this.createServer();
+  }
+  
+  private createServer(): Server {
+    const server = new Server(
       { name: 'uniplex-mcp-sdk', version: '1.0.0' },
       { capabilities: this.getCapabilities() }
     );
     
     // Set up handlers
-    this.setupHandlers();
+    this.setupHandlers(server);
+    
+    return server;
   }
   
   // ==========================================================================
@@ -103,6 +228,7 @@ export class UniplexMCPServer {
       catalog_discovery: true,
       safe_default: this.config.safe_default.enabled,
       request_templates: true,
+      methods: Object.values(UNIPLEX_METHODS),
     };
   }
   
@@ -110,44 +236,81 @@ export class UniplexMCPServer {
   // HANDLER SETUP
   // ==========================================================================
   
-  private setupHandlers(): void {
+  private setupHandlers(server: Server): void {
     // Standard MCP handlers
-    this.server.setRequestHandler(
+    server.setRequestHandler(
       ListToolsRequestSchema,
       this.handleListTools.bind(this)
     );
-    this.server.setRequestHandler(
+    server.setRequestHandler(
       CallToolRequestSchema,
-      this.handleCallTool.bind(this)
+      (request, extra) => this.handleCallTool(request, extra, server)
     );
     
     // Uniplex-specific handlers (custom methods)
-    this.setupUniplexHandlers();
+    this.setupUniplexHandlers(server);
   }
   
-  private setupUniplexHandlers(): void {
-    // These would be registered as custom MCP methods
-    // For now, we'll handle them via a custom method router
+  private setupUniplexHandlers(server: Server): void {
+    // Results are spread into plain objects: MCP results are open records
     
     // uniplex/catalog - Get permission catalog
+    server.setRequestHandler(
+      CatalogRequestSchema,
+      async () => ({ ...await this.handleCatalog() })
+    );
+    
+    // uniplex/session - Get current session info
+    server.setRequestHandler(
+      SessionRequestSchema,
+      async (request, extra) => ({ ...await this.handleSession(request, extra) })
+    );
+    
+    // uniplex/present-passport - Attach an agent's own passport to the session
+    server.setRequestHandler(
+      PresentPassportRequestSchema,
+      async (request, extra) => ({ ...await this.handlePresentPassport(request, extra) })
+    );
+    
     // uniplex/request-passport - Request a new passport
+    server.setRequestHandler(
+      RequestPassportRequestSchema,
+      async (request) => ({ ...await this.handleRequestPassport(request) })
+    );
+    
     // uniplex/request-approval - Request approval for permissions
-    // uniplex/session - Get current session info
+    server.setRequestHandler(
+      RequestApprovalRequestSchema,
+      async (request, extra) => ({ ...await this.handleRequestApproval(request, extra) })
+    );
+    
+    // uniplex/approval-status - Poll an approval; returns the token once approved
+    server.setRequestHandler(
+      ApprovalStatusRequestSchema,
+      async (request, extra) => ({ ...await this.handleApprovalStatus(request, extra) })
+    );
+    
+    // uniplex/jwks - Gate public keys for verifying attestations
+    server.setRequestHandler(
+      JwksRequestSchema,
+      async () => ({ ...await this.getJwks() })
+    );
   }
   
   // ==========================================================================
   // LIST TOOLS HANDLER
   // ==========================================================================
   
-  private async handleListTools(request: any): Promise<{ tools: any[] }> {
-    const sessionId = this.extractSessionId(request);
+  private async handleListTools(request: any, extra?: HandlerExtra): Promise<{ tools: any[] }> {
+    const sessionId = this.extractSessionId(request, extra);
+    await this.bindPresentedPassport(request, sessionId);
     const session = await this.sessionManager.getOrCreateSession(sessionId, {
       agentId: request.meta?.agentId,
       issuerId: request.meta?.issuerId,
     });
     const sessionWrapper = new SessionWrapper(session);
     
-    const tools = this.toolRegistry.getAll().map(tool => {
+    const tools = await Promise.all(this.toolRegistry.getAll().map(async tool => {
       const allowed = sessionWrapper.hasPermission(tool.permission_key);
       const reason = allowed 
         ? undefined 
@@ -155,9 +318,12 @@ export class UniplexMCPServer {
       const effectiveConstraints = allowed 
         ? sessionWrapper.getConstraints(tool.permission_key)
         : undefined;
+      const rateLimit = allowed
+        ? await this.getRateLimitStatus(tool, sessionWrapper)
+        : undefined;
       
-      return toMCPToolFormat(tool, allowed, reason, effectiveConstraints);
-    });
+      return toMCPToolFormat(tool, allowed, reason, effectiveConstraints, rateLimit);
+    }));
     
     return { tools };
   }
@@ -166,8 +332,13 @@ export class UniplexMCPServer {
   // CALL TOOL HANDLER (HOT PATH)
   // ==========================================================================
   
-  private async handleCallTool(request: any): Promise<ToolExecutionResult> {
-    const sessionId = this.extractSessionId(request);
+  private async handleCallTool(
+    request: any,
+    extra?: HandlerExtra,
+    mcpServer?: Server
+  ): Promise<ToolExecutionResult> {
+    const sessionId = this.extractSessionId(request, extra);
+    await this.bindPresentedPassport(request, sessionId);
     const session = await this.sessionManager.getOrCreateSession(sessionId);
     const sessionWrapper = new SessionWrapper(session);
     
@@ -195,52 +366,138 @@ export class UniplexMCPServer {
       };
     }
     
+    // Approval token replayed with a previously SUSPENDed call
+    const approvalToken = request.params?._meta?.uniplex_approval_token;
+    let approval: AttestationApproval | undefined;
+    if (typeof approvalToken === 'string') {
+      const check = await this.approvalManager.check(approvalToken, {
+        passport_id: sessionWrapper.passportId,
+        tool: tool.name,
+        permission_key: tool.permission_key,
+        input,
+      });
+      if (!check.valid) {
+        return this.formatDenialResponse(approvalDenial(check.reason), tool);
+      }
+      approval = toAttestationApproval(check.approval, 'token');
+    }
+    
     // LOCAL verification (MUST NOT call network - Section 1.3)
-    const verification = verifyLocally({
+    const verifyParams: VerifyLocallyParams = {
       passport: sessionWrapper.passport,
       catalog,
       revocationList: this.cacheManager.revocationList,
       issuerKeys: this.cacheManager.issuerKeys,
-      rateLimiter: this.rateLimiter,
+      issuerTrust: this.cacheManager.issuerTrust,
+      rateLimiter: this.sharedRateLimiter ? undefined : this.rateLimiter,
       action: tool.permission_key,
       context,
+      requiredConstraints: tool.required_constraints,
+      cacheFreshness: this.cacheManager.getFreshness(tool.permission_key),
+      spendTracker: this.spendTracker,
+      skipSignatureVerification: this.config.test_mode?.enabled,
+      validity: this.config.passport_validity,
+      audiences: this.getAudiences(),
+      holderProof: {
+        proof: request.params?._meta?.uniplex_proof,
+        gate_id: this.config.gate_id,
+        tool: tool.name,
+        input,
+        maxAgeSeconds: this.config.holder_binding?.proof_max_age_seconds,
+      },
       anonymousPolicy: this.config.anonymous,
-    });
+    };
+    let verification = verifyLocally({ ...verifyParams, approvalGranted: approval !== undefined });
+    
+    // SUSPEND: ask the user in-band if the client supports it,
+    // otherwise open an approval bound to this exact call
+    if (verification.constraint_decision === 'SUSPEND') {
+      const elicited = mcpServer && this.config.approval?.elicitation
+        ? await this.elicitApproval(mcpServer, verification, tool, sessionWrapper, input, context)
+        : undefined;
+      if (elicited === 'declined') {
+        return this.formatDenialResponse(
+          { ...verification, denial: { ...verification.denial!, message: 'The user declined this call' } },
+          tool
+        );
+      }
+      if (!elicited) {
+        return this.formatSuspendResponse(verification, tool, sessionWrapper, input);
+      }
+      approval = toAttestationApproval(elicited, 'elicitation');
+      verification = verifyLocally({ ...verifyParams, approvalGranted: true });
+    }
     
     // Handle denial
     if (!verification.allowed) {
       return this.formatDenialResponse(verification, tool);
     }
     
-    // Execute tool
-    const auditId = await this.logExecution(tool, input, sessionWrapper);
-    const startTime = Date.now();
+    // Hold the amount against cumulative budgets before the first await,
+    // so concurrent calls on this passport can't all pass the same check
+    const spend = this.reserveSpend(tool, sessionWrapper, context);
     
     try {
-      const result = await tool.handler(input);
-      const duration_ms = Date.now() - startTime;
-      await this.completeAuditLog(auditId, 'success');
+      // Approvals are one-time; consumed before the rate limit so a
+      // replayed approval doesn't use up a slot
+      if (approval && !await this.approvalManager.consume(approval.approval_id)) {
+        return this.formatDenialResponse(approvalDenial('Approval was already used'), tool);
+      }
       
-      // Create attestations
-      const verificationAttestation = this.config.audit?.enabled 
-        ? await this.createAttestation(tool, sessionWrapper, verification)
-        : undefined;
+      // Shared counters are a network call, so they are checked after
+      // local verification rather than in Step 9
+      if (this.sharedRateLimiter && sessionWrapper.passportId) {
+        const denial = await this.consumeSharedRateLimit(tool, sessionWrapper.passportId, verification);
+        if (denial) {
+          return this.formatDenialResponse(denial, tool);
+        }
+      }
       
-      const consumptionAttestation = this.config.commerce?.enabled && this.config.commerce?.issue_receipts
-        ? await this.createConsumptionAttestation(tool, sessionWrapper, verification, duration_ms)
-        : undefined;
+      // A holder proof is good for one call; its nonce is recorded last, once
+      // nothing else can deny the call, so a denied call doesn't spend it
+      const holderNonce = verification.holder_nonce;
+      if (holderNonce && !await this.nonceCache.add(holderNonce.key, holderNonce.expires_at)) {
+        return this.formatDenialResponse(holderProofReplayed(), tool);
+      }
       
-      return {
-        isError: false,
-        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-        _meta: {
-          uniplex_attestation: verificationAttestation,
-          uniplex_consumption: consumptionAttestation,
-        },
-      };
-    } catch (error) {
-      await this.completeAuditLog(auditId, 'error', error);
-      throw error;
+      // Execute tool
+      const auditId = await this.logExecution(tool, input, sessionWrapper, verification);
+      const startTime = Date.now();
+      
+      try {
+        const result = await tool.handler(input);
+        const duration_ms = Date.now() - startTime;
+        await this.completeAuditLog(auditId, 'success');
+        await this.commitSpend(spend);
+        
+        // Create attestations
+        const verificationAttestation = this.config.audit?.enabled 
+          ? await this.createAttestation(tool, sessionWrapper, verification, approval)
+          : undefined;
+        
+        const consumptionAttestation = this.config.commerce?.enabled && this.config.commerce?.issue_receipts
+          ? await this.createConsumptionAttestation(tool, sessionWrapper, verification, duration_ms)
+          : undefined;
+        
+        return {
+          isError: false,
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          _meta: {
+            uniplex_attestation: verificationAttestation,
+            uniplex_consumption: consumptionAttestation,
+            ...(!verification.confident && {
+              uniplex_confident: false,
+              uniplex_stale_caches: verification.stale_caches,
+            }),
+            ...(verification.rate_limit && { uniplex_rate_limit: verification.rate_limit }),
+          },
+        };
+      } catch (error) {
+        await this.completeAuditLog(auditId, 'error', error);
+        throw error;
+      }
+    } finally {
+      spend?.release();
     }
   }
   
@@ -271,6 +528,89 @@ export class UniplexMCPServer {
     };
   }
   
+  private async formatSuspendResponse(
+    verification: VerifyResult,
+    tool: ToolDefinition,
+    session: SessionWrapper,
+    input: Record<string, unknown>
+  ): Promise<ToolExecutionResult> {
+    const approval = await this.approvalManager.create({
+      permissions: [tool.permission_key],
+      session_id: session.sessionId,
+      passport_id: session.passportId,
+      agent_id: session.agentId,
+      tool: tool.name,
+      input,
+      reason: verification.denial?.message,
+      reason_codes: verification.reason_codes,
+    });
+    const approval_url = this.approvalManager.getApprovalUrl(approval.approval_id);
+    
+    const response = await this.formatDenialResponse(verification, tool);
+    response.content[0].text +=
+      `\n\nApproval requested (${approval.approval_id}). Poll uniplex/approval-status and ` +
+      'retry this call with _meta.uniplex_approval_token once approved.';
+    response._meta = {
+      ...response._meta,
+      uniplex_approval: {
+        approval_id: approval.approval_id,
+        status: approval.status,
+        expires_at: approval.expires_at,
+        ...(approval_url && { approval_url }),
+      },
+    };
+    return response;
+  }
+  
+  /**
+   * Ask the user to approve a SUSPENDed call via MCP elicitation.
+   * Returns undefined when the client can't be asked (no elicitation
+   * capability, error or timeout) so the caller falls back to an
+   * out-of-band approval.
+   */
+  private async elicitApproval(
+    mcpServer: Server,
+    verification: VerifyResult,
+    tool: ToolDefinition,
+    session: SessionWrapper,
+    input: Record<string, unknown>,
+    context: RequestContext
+  ): Promise<PendingApproval | 'declined' | undefined> {
+    if (!mcpServer.getClientCapabilities()?.elicitation) return undefined;
+    
+    let result;
+    try {
+      result = await mcpServer.elicitInput({
+        message: formatApprovalPrompt(tool, verification, context),
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            approve: { type: 'boolean', title: 'Approve this call', default: false },
+          },
+          required: ['approve'],
+        },
+      }, { timeout: this.approvalManager.ttlMs });
+    } catch (error) {
+      console.error('Approval elicitation failed:', error);
+      return undefined;
+    }
+    
+    if (result.action !== 'accept' || result.content?.approve !== true) {
+      return 'declined';
+    }
+    
+    return this.approvalManager.grant({
+      permissions: [tool.permission_key],
+      session_id: session.sessionId,
+      passport_id: session.passportId,
+      agent_id: session.agentId,
+      tool: tool.name,
+      input,
+      reason: verification.denial?.message,
+      reason_codes: verification.reason_codes,
+    }, { approver: mcpServer.getClientVersion()?.name });
+  }
+  
   private async fetchSuggestions(
     verification: VerifyResult,
     tool: ToolDefinition
@@ -303,7 +643,8 @@ export class UniplexMCPServer {
   private async logExecution(
     tool: ToolDefinition,
     input: unknown,
-    session: SessionWrapper
+    session: SessionWrapper,
+    verification: VerifyResult
   ): Promise<string> {
     if (!this.config.audit?.enabled) {
       return '';
@@ -320,6 +661,8 @@ export class UniplexMCPServer {
       passport_id: session.passportId,
       session_id: session.sessionId,
       timestamp: new Date().toISOString(),
+      confident: verification.confident,
+      ...(verification.stale_caches && { stale_caches: verification.stale_caches }),
       ...(this.config.audit.log_inputs && { input }),
     }));
     
@@ -344,6 +687,103 @@ export class UniplexMCPServer {
     }));
   }
   
+  // ==========================================================================
+  // RATE LIMITS
+  // ==========================================================================
+  
+  /**
+   * Quota left for a tool, from the same merged constraints verifyLocally
+   * uses. A shared store is read over the network; if it can't be
+   * reached the hint is left out.
+   */
+  private async getRateLimitStatus(
+    tool: ToolDefinition,
+    session: SessionWrapper
+  ): Promise<RateLimitStatus | undefined> {
+    if (!session.passportId) return undefined;
+    
+    const catalogConstraints = this.cacheManager.catalog
+      ?.permissionsByKey[tool.permission_key]?.constraints ?? {};
+    const constraints = mergeConstraints(
+      catalogConstraints,
+      session.getConstraints(tool.permission_key) ?? {}
+    );
+    const limits = rateLimitsFromConstraints(constraints);
+    
+    if (!this.sharedRateLimiter) {
+      return this.rateLimiter.status(tool.permission_key, session.passportId, limits);
+    }
+    try {
+      return await this.sharedRateLimiter.status(tool.permission_key, session.passportId, limits);
+    } catch (error) {
+      console.error('Rate limit store unavailable:', error);
+      return undefined;
+    }
+  }
+  
+  
+  /**
+   * Count the call against the shared rate limit store. Returns a denial
+   * when a window is full or the store is unreachable (fail closed).
+   */
+  private async consumeSharedRateLimit(
+    tool: ToolDefinition,
+    passportId: string,
+    verification: VerifyResult
+  ): Promise<VerifyResult | undefined> {
+    let result: RateLimitConsumeResult;
+    try {
+      result = await this.sharedRateLimiter!.tryConsume(
+        tool.permission_key,
+        passportId,
+        rateLimitsFromConstraints(verification.effective_constraints ?? {})
+      );
+    } catch (error) {
+      console.error('Rate limit store unavailable:', error);
+      return rateLimited(undefined, 'Rate limit could not be checked');
+    }
+    if (!result.allowed) {
+      return rateLimited(result.status);
+    }
+    
+    // Local verification had no counters to report; the store's quota
+    // goes on the allowed call instead
+    verification.rate_limit = result.status;
+    return undefined;
+  }
+  
+  // ==========================================================================
+  // CUMULATIVE SPEND
+  // ==========================================================================
+  
+  /**
+   * Reserve a permitted call's amount against the passport's running
+   * totals. Must run in the same tick as the verifyLocally that checked
+   * the budget; the caller releases it if the call doesn't go through.
+   */
+  private reserveSpend(
+    tool: ToolDefinition,
+    session: SessionWrapper,
+    context: RequestContext
+  ): SpendReservation | undefined {
+    const amount = context.amount_canonical;
+    if (typeof amount !== 'number' || !session.passportId) return undefined;
+    
+    return this.spendTracker.reserve(session.passportId, tool.permission_key, amount);
+  }
+  
+  /**
+   * Add a successful call's reserved amount to the running totals.
+   * The handler has already run, so a store failure is logged, not thrown.
+   */
+  private async commitSpend(spend: SpendReservation | undefined): Promise<void> {
+    try {
+      await spend?.commit();
+    } catch (error) {
+      console.error('Failed to record spend:', error);
+    }
+  }
+  
   // ==========================================================================
   // ATTESTATIONS
   // ==========================================================================
@@ -351,7 +791,8 @@ export class UniplexMCPServer {
   private async createAttestation(
     tool: ToolDefinition,
     session: SessionWrapper,
-    verification: VerifyResult
+    verification: VerifyResult,
+    approval?: AttestationApproval
   ): Promise<{ attestation_id: string; attestation_json: string; signature: string } | undefined> {
     if (!session.passportId) return undefined;
     
@@ -363,13 +804,17 @@ export class UniplexMCPServer {
       result: 'allowed',
       context: verification.effective_constraints ?? {},
       timestamp: new Date().toISOString(),
+      ...(approval && { approval }),
+      // Pins the catalog terms in force for this decision
+      ...(verification.catalog_version !== undefined && { catalog_version: verification.catalog_version }),
+      ...(verification.catalog_content_hash && { catalog_content_hash: verification.catalog_content_hash }),
     };
     
-    // Canonical JSON (per Section 0.2 Attestation Integrity Invariant)
-    const attestation_json = JSON.stringify(attestation);
+    // Canonical JSON (RFC 8785, per Section 0.2 Attestation Integrity Invariant)
+    const attestation_json = canonicalize(attestation);
     
-    // In production, this would be signed with the gate's signing key
-    const signature = 'mock_signature_' + attestation.attestation_id;
+    // Detached JWS over attestation_json, kid = signing_key_id
+    const signature = await signDetachedJws(attestation_json, this.signer);
     
     return {
       attestation_id: attestation.attestation_id,
@@ -390,24 +835,18 @@ export class UniplexMCPServer {
   ): Promise<ConsumptionAttestation | undefined> {
     if (!session.passportId || !session.agentId) return undefined;
     
-    const signing_key_id = this.config.signing_key_id ?? `${this.config.gate_id}#key-1`;
-    
-    // Mock signing function - in production, use actual cryptographic signing
-    const mockSign = async (payload: string): Promise<string> => {
-      return 'mock_sig_' + Buffer.from(payload).toString('base64').slice(0, 20);
-    };
-    
     try {
       const attestation = await issueConsumptionAttestation({
         gate_id: this.config.gate_id,
         agent_id: session.agentId,
         passport_id: session.passportId,
         permission_key: tool.permission_key,
-        catalog_version: this.cacheManager.getCatalogVersion() ?? 1,
+        catalog_version: verification.catalog_version ?? this.cacheManager.getCatalogVersion() ?? 1,
+        catalog_content_hash: verification.catalog_content_hash ?? this.cacheManager.getCatalogContentHash(),
         effective_constraints: verification.effective_constraints ?? {},
         duration_ms,
-        sign: mockSign,
-        signing_key_id,
+        sign: (payload) => signDetachedJws(payload, this.signer),
+        signing_key_id: this.signer.kid,
       });
       
       return attestation;
@@ -421,22 +860,21 @@ export class UniplexMCPServer {
   // RATE LIMIT CONFIGURATION
   // ==========================================================================
   
+  /**
+   * Gate-wide limits from fixed tool mappings. Catalog and passport rate
+   * constraints are applied per call by verifyLocally.
+   */
   private configureRateLimits(): void {
     for (const tool of this.config.tools) {
-      // Check for rate limit constraints in catalog or tool config
-      const rateLimit = tool.constraints?.find(c => 
-        c.key === 'core:rate:max_per_minute' || c.key === 'core:rate:max_per_hour'
-      );
-      
-      if (rateLimit && rateLimit.fixed_value) {
-        const windowMs = rateLimit.key === 'core:rate:max_per_minute' 
-          ? 60000 
-          : 3600000;
-        this.rateLimiter.setLimit(
-          tool.permission_key,
-          Number(rateLimit.fixed_value),
-          windowMs
-        );
+      for (const constraint of tool.constraints ?? []) {
+        const windowMs = RATE_LIMIT_WINDOWS[constraint.key];
+        if (windowMs && constraint.fixed_value) {
+          (this.sharedRateLimiter ?? this.rateLimiter).setLimit(
+            tool.permission_key,
+            Number(constraint.fixed_value),
+            windowMs
+          );
+        }
       }
     }
   }
@@ -445,8 +883,136 @@ export class UniplexMCPServer {
   // HELPER METHODS
   // ==========================================================================
   
-  private extractSessionId(request: any): string {
-    return request.meta?.sessionId ?? request._meta?.sessionId ?? 'default';
+  /**
+   * Resolve the Uniplex session for a request.
+   * The transport's MCP session id (HTTP) takes precedence over any
+   * client-supplied id, so one client cannot address another's session.
+   */
+  private extractSessionId(request: any, extra?: HandlerExtra): string {
+    return extra?.sessionId
+      ?? request.meta?.sessionId
+      ?? request._meta?.sessionId
+      ?? request.params?._meta?.sessionId
+      ?? 'default';
+  }
+  
+  /**
+   * Whether a session opened an approval, or holds the passport it was
+   * opened for (an agent that reconnected under a new session)
+   */
+  private async isApprovalRequester(approval: PendingApproval, sessionId: string): Promise<boolean> {
+    if (approval.session_id === sessionId) return true;
+    if (!approval.passport_id) return false;
+    
+    const passport = await this.sessionManager.getPassport(sessionId);
+    return passport?.passport_id === approval.passport_id;
+  }
+  
+  /**
+   * Audiences a passport may be minted for: this gate, the gate_ids it also
+   * answers for, and its trust networks. Undefined when enforcement is off.
+   */
+  private getAudiences(): string[] | undefined {
+    if (this.config.audience?.enforce === false) return undefined;
+    
+    return [
+      this.config.gate_id,
+      ...(this.config.audience?.accepted_gate_ids ?? []),
+      ...(this.config.trust_networks ?? []).map(network => `${TRUST_NETWORK_AUDIENCE_PREFIX}${network}`),
+    ];
+  }
+  
+  /**
+   * Bind a passport sent as `_meta.uniplex_passport` on any request.
+   * A rejected passport fails the request rather than falling back to the
+   * session's existing passport or anonymous access (anti-downgrade).
+   */
+  private async bindPresentedPassport(request: any, sessionId: string): Promise<void> {
+    const presented = request.params?._meta?.uniplex_passport;
+    if (presented === undefined) return;
+    
+    await this.presentPassport(sessionId, presented);
+  }
+  
+  /**
+   * Validate a presented passport and bind it to the session.
+   * Presentation is NOT hot path: it runs once per passport, not per call.
+   */
+  private async presentPassport(sessionId: string, presented: unknown): Promise<Passport> {
+    // Compact JWS passports are decoded to the JSON shape, then checked alike
+    let decoded: Omit<Passport, 'claimsByKey'> | undefined;
+    if (typeof presented === 'string') {
+      try {
+        decoded = decodePassportJws(presented);
+      } catch (error) {
+        throw uniplexError(UNIPLEX_ERROR_CODES.PASSPORT_REJECTED, 'Malformed passport', {
+          issues: [(error as Error).message],
+        });
+      }
+    }
+    
+    const parsed = PassportSchema.safeParse(decoded ?? presented);
+    if (!parsed.success) {
+      throw uniplexError(UNIPLEX_ERROR_CODES.PASSPORT_REJECTED, 'Malformed passport', {
+        issues: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`),
+      });
+    }
+    // The schema drops jws: it is only ever taken from the decoder
+    const unindexed = decoded ? { ...parsed.data, jws: decoded.jws } : parsed.data;
+    
+    const result = validatePassport({
+      passport: unindexed,
+      issuerKeys: this.cacheManager.issuerKeys,
+      revocationList: this.cacheManager.revocationList,
+      issuerTrust: this.cacheManager.issuerTrust,
+      gateId: this.config.gate_id,
+      skipSignatureVerification: this.config.test_mode?.enabled,
+      validity: this.config.passport_validity,
+      audiences: this.getAudiences(),
+      skipAudienceCheck: this.config.audience?.enforce === false,
+    });
+    
+    if (!result.allowed) {
+      throw uniplexError(
+        UNIPLEX_ERROR_CODES.PASSPORT_REJECTED,
+        result.denial?.message ?? 'Passport rejected',
+        { denial_code: result.denial?.code }
+      );
+    }
+    
+    const passport = buildPassportIndex(unindexed);
+    await this.sessionManager.getOrCreateSession(sessionId, {
+      agentId: passport.agent_id,
+      issuerId: passport.issuer_id,
+    });
+    await this.sessionManager.setPassport(sessionId, passport);
+    
+    return passport;
+  }
+  
+  private validatePermissionKeys(permissions: unknown): string[] {
+    if (!Array.isArray(permissions) || permissions.length === 0) {
+      throw uniplexError(
+        UNIPLEX_ERROR_CODES.INVALID_PERMISSIONS,
+        'permissions must be a non-empty array of permission keys'
+      );
+    }
+    
+    const catalog = this.cacheManager.catalog;
+    if (!catalog) {
+      throw uniplexError(UNIPLEX_ERROR_CODES.CATALOG_NOT_LOADED, 'Catalog not loaded');
+    }
+    
+    const unknown = permissions.filter(key => !catalog.permissionsByKey[key]);
+    if (unknown.length > 0) {
+      throw uniplexError(
+        UNIPLEX_ERROR_CODES.INVALID_PERMISSIONS,
+        `Permissions not in gate catalog: ${unknown.join(', ')}`,
+        { unknown_permissions: unknown }
+      );
+    }
+    
+    return permissions;
   }
   
   // ==========================================================================
@@ -457,21 +1023,23 @@ export class UniplexMCPServer {
    * Handle uniplex/catalog request
    * Returns the permission catalog for this gate
    */
-  async handleCatalog(): Promise<object> {
+  async handleCatalog(): Promise<UniplexCatalogResult> {
     const catalog = this.cacheManager.catalog;
     if (!catalog) {
-      throw new Error('Catalog not loaded');
+      throw uniplexError(UNIPLEX_ERROR_CODES.CATALOG_NOT_LOADED, 'Catalog not loaded');
     }
     
     return {
       gate_id: catalog.gate_id,
       version: catalog.current.version,
+      content_hash: catalog.current.content_hash,
       permissions: Object.values(catalog.permissionsByKey).map(p => ({
         permission_key: p.permission_key,
         display_name: p.display_name,
         description: p.description,
         risk_level: p.risk_level,
         required_constraints: p.required_constraints,
+        trust_level_required: p.trust_level_required,
       })),
     };
   }
@@ -480,8 +1048,9 @@ export class UniplexMCPServer {
    * Handle uniplex/session request
    * Returns current session information
    */
-  async handleSession(request: any): Promise<object> {
-    const sessionId = this.extractSessionId(request);
+  async handleSession(request: any, extra?: HandlerExtra): Promise<UniplexSessionResult> {
+    const sessionId = this.extractSessionId(request, extra);
+    await this.bindPresentedPassport(request, sessionId);
     const session = await this.sessionManager.getOrCreateSession(sessionId);
     const wrapper = new SessionWrapper(session);
     
@@ -494,17 +1063,36 @@ export class UniplexMCPServer {
     };
   }
   
+  /**
+   * Handle uniplex/present-passport
+   * Verifies an agent-held passport and binds it to the session
+   */
+  async handlePresentPassport(request: any, extra?: HandlerExtra): Promise<UniplexPresentPassportResult> {
+    const sessionId = this.extractSessionId(request, extra);
+    const passport = await this.presentPassport(sessionId, request.params?.passport);
+    
+    return {
+      session_id: sessionId,
+      passport_id: passport.passport_id,
+      agent_id: passport.agent_id,
+      permissions: passport.permissions.map(p => p.permission_key),
+      expires_at: passport.expires_at,
+    };
+  }
+  
   /**
    * Handle uniplex/request-passport
    * Requests a new passport with specified permissions
    */
-  async handleRequestPassport(request: any): Promise<object> {
+  async handleRequestPassport(request: any): Promise<UniplexRequestPassportResult> {
+    const permissions = this.validatePermissionKeys(request.params?.permissions);
+    
     // This would call the Uniplex API to request a passport
     // For now, return a placeholder
     return {
       status: 'pending',
       request_id: `req_${Date.now()}`,
-      permissions_requested: request.params?.permissions ?? [],
+      permissions_requested: permissions,
     };
   }
   
@@ -512,22 +1100,97 @@ export class UniplexMCPServer {
    * Handle uniplex/request-approval
    * Requests human approval for elevated permissions
    */
-  async handleRequestApproval(request: any): Promise<object> {
+  async handleRequestApproval(request: any, extra?: HandlerExtra): Promise<UniplexRequestApprovalResult> {
+    const permissions = this.validatePermissionKeys(request.params?.permissions);
+    const sessionId = this.extractSessionId(request, extra);
+    const session = new SessionWrapper(await this.sessionManager.getOrCreateSession(sessionId));
+    
+    // Optionally bind the approval to one call, as a SUSPENDed call would
+    const toolName = request.params?.tool;
+    const tool = toolName !== undefined ? this.toolRegistry.get(toolName) : undefined;
+    if (toolName !== undefined && (!tool || !permissions.includes(tool.permission_key))) {
+      throw uniplexError(
+        UNIPLEX_ERROR_CODES.APPROVAL_REQUEST_FAILED,
+        `Tool ${toolName} is unknown or not covered by the requested permissions`
+      );
+    }
+    
+    const approval = await this.approvalManager.create({
+      permissions,
+      session_id: sessionId,
+      passport_id: session.passportId,
+      agent_id: session.agentId,
+      reason: request.params?.reason,
+      ...(tool && { tool: tool.name, input: request.params?.arguments ?? {} }),
+    });
+    
     return {
       status: 'pending',
-      approval_id: `appr_${Date.now()}`,
-      permissions_requested: request.params?.permissions ?? [],
-      approval_url: `https://uniplex.ai/approve/${this.config.gate_id}/${Date.now()}`,
+      approval_id: approval.approval_id,
+      permissions_requested: permissions,
+      approval_url: this.approvalManager.getApprovalUrl(approval.approval_id),
+      expires_at: approval.expires_at,
+    };
+  }
+  
+  /**
+   * Handle uniplex/approval-status
+   * Returns the approval's status, and its one-time token once approved.
+   * The token only goes to the session or passport that opened the approval.
+   */
+  async handleApprovalStatus(request: any, extra?: HandlerExtra): Promise<UniplexApprovalStatusResult> {
+    const approvalId = request.params?.approval_id;
+    const approval = typeof approvalId === 'string'
+      ? await this.approvalManager.get(approvalId)
+      : undefined;
+    if (!approval) {
+      throw uniplexError(UNIPLEX_ERROR_CODES.APPROVAL_NOT_FOUND, `Unknown approval: ${approvalId}`);
+    }
+    
+    const approval_token = await this.isApprovalRequester(approval, this.extractSessionId(request, extra))
+      ? await this.approvalManager.issueToken(approval)
+      : undefined;
+    return {
+      approval_id: approval.approval_id,
+      status: approval.status,
+      expires_at: approval.expires_at,
+      ...(approval_token && { approval_token }),
+      ...(approval.decision_reason && { reason: approval.decision_reason }),
     };
   }
   
+  /**
+   * Local approver API: list, approve and deny pending approvals
+   */
+  get approvals(): ApprovalManager {
+    return this.approvalManager;
+  }
+  
+  /**
+   * Gate public signing keys (JWKS) for verifying attestations.
+   * Served as uniplex/jwks and at /.well-known/jwks.json over HTTP.
+   */
+  async getJwks(): Promise<GateJwks> {
+    return { keys: [await signerToJwk(this.signer)] };
+  }
+  
+  /**
+   * Cache refresh counters (applied, skipped as unchanged, failed) per resource
+   */
+  getCacheRefreshStats(): Record<CacheResource, CacheRefreshStats> {
+    return this.cacheManager.getRefreshStats();
+  }
+  
   // ==========================================================================
   // SERVER LIFECYCLE
   // ==========================================================================
   
   async initialize(): Promise<void> {
-    // Start background cache refresh
+    // Load spend totals, start background cache refresh and session expiry
+    await this.spendTracker.load();
     await this.cacheManager.startBackgroundRefresh();
+    this.sessionManager.startSweeper();
+    this.approvalManager.startSweeper();
     console.error('Uniplex MCP Server initialized');
   }
   
@@ -539,12 +1202,196 @@ export class UniplexMCPServer {
     console.error('Uniplex MCP Server running on stdio');
   }
   
+  /**
+   * Serve the gate over MCP streamable HTTP, with the legacy HTTP+SSE
+   * transport as a fallback for older clients.
+   *
+   * Each MCP session id issued by the transport maps to its own
+   * Uniplex session, so one process can gate many remote agents.
+   */
+  async runHttp(options: HttpServerOptions): Promise<void> {
+    await this.initialize();
+    
+    const host = options.host ?? '127.0.0.1';
+    const path = options.path ?? '/mcp';
+    
+    this.httpServer = createServer((req, res) => {
+      this.handleHttpRequest(req, res, options).catch(error => {
+        console.error('HTTP request failed:', error);
+        if (!res.headersSent) {
+          writeJsonRpcError(res, 500, ErrorCode.InternalError, 'Internal server error');
+        }
+      });
+    });
+    
+    const httpServer = this.httpServer;
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(options.port, host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+    
+    const address = httpServer.address();
+    const port = typeof address === 'object' && address ? address.port : options.port;
+    this.httpSecurity = httpTransportSecurity(options, host, port);
+    
+    console.error(`Uniplex MCP Server running on http://${host}:${port}${path}`);
+  }
+  
   async stop(): Promise<void> {
     this.cacheManager.stopBackgroundRefresh();
+    this.sessionManager.stopSweeper();
+    this.approvalManager.stopSweeper();
+    
+    for (const [sessionId, session] of Array.from(this.httpSessions.entries())) {
+      await session.server.close();
+      this.closeHttpSession(sessionId);
+    }
+    
+    const httpServer = this.httpServer;
+    if (httpServer) {
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+      this.httpServer = undefined;
+    }
+    
     await this.server.close();
     console.error('Uniplex MCP Server stopped');
   }
   
+  // ==========================================================================
+  // HTTP TRANSPORT
+  // ==========================================================================
+  
+  private async handleHttpRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    options: HttpServerOptions
+  ): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    
+    if (url.pathname === (options.path ?? '/mcp')) {
+      return this.handleStreamableHttp(req, res);
+    }
+    
+    if (req.method === 'GET' && url.pathname === '/.well-known/jwks.json') {
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(await this.getJwks()));
+      return;
+    }
+    
+    if (options.sse !== false) {
+      const messagesPath = options.sse_messages_path ?? '/messages';
+      
+      if (req.method === 'GET' && url.pathname === (options.sse_path ?? '/sse')) {
+        return this.handleSseConnect(res, messagesPath);
+      }
+      if (req.method === 'POST' && url.pathname === messagesPath) {
+        return this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+      }
+    }
+    
+    res.writeHead(404).end();
+  }
+  
+  private async handleStreamableHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        if (error instanceof RequestBodyTooLargeError) {
+          writeJsonRpcError(res, 413, ErrorCode.InvalidRequest, error.message);
+        } else {
+          writeJsonRpcError(res, 400, ErrorCode.ParseError, 'Parse error');
+        }
+        return;
+      }
+    }
+    
+    const sessionHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    
+    if (sessionId) {
+      const session = this.httpSessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        writeJsonRpcError(res, 404, ErrorCode.ConnectionClosed, 'Session not found');
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+    
+    // Without a session id, only an initialize request may open a new session
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      writeJsonRpcError(res, 400, ErrorCode.InvalidRequest, 'No valid session ID provided');
+      return;
+    }
+    
+    // Open the Uniplex session up front, so the sweeper can evict the HTTP
+    // session even if the client goes away before making a call
+    const newSessionId = randomUUID();
+    await this.sessionManager.getOrCreateSession(newSessionId);
+    
+    const server = this.createServer();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => newSessionId,
+      onsessioninitialized: (id) => {
+        this.httpSessions.set(id, { server, transport });
+      },
+      ...this.httpSecurity,
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) this.closeHttpSession(transport.sessionId);
+    };
+    
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+  
+  private async handleSseConnect(res: ServerResponse, messagesPath: string): Promise<void> {
+    const server = this.createServer();
+    const transport = new SSEServerTransport(messagesPath, res, this.httpSecurity);
+    
+    await this.sessionManager.getOrCreateSession(transport.sessionId);
+    this.httpSessions.set(transport.sessionId, { server, transport });
+    transport.onclose = () => this.closeHttpSession(transport.sessionId);
+    
+    await server.connect(transport);
+  }
+  
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null
+  ): Promise<void> {
+    const session = sessionId ? this.httpSessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      writeJsonRpcError(res, 404, ErrorCode.ConnectionClosed, 'Session not found');
+      return;
+    }
+    
+    await session.transport.handlePostMessage(req, res);
+  }
+  
+  private closeHttpSession(sessionId: string): void {
+    if (this.httpSessions.delete(sessionId)) {
+      this.sessionManager.deleteSession(sessionId).catch(console.error);
+    }
+  }
+  
+  /**
+   * Close the transport of an HTTP session whose Uniplex session the
+   * sweeper removed for inactivity
+   */
+  private evictHttpSession(sessionId: string): void {
+    const session = this.httpSessions.get(sessionId);
+    if (!session) return;
+    
+    this.httpSessions.delete(sessionId);
+    session.server.close().catch(console.error);
+  }
+  
   // ==========================================================================
   // TEST MODE
   // ==========================================================================
@@ -554,8 +1401,10 @@ export class UniplexMCPServer {
    */
   async setTestSession(config: {
     sessionId?: string;
+    passportId?: string;  // default: passport_test_{sessionId}
     permissions: string[];
     constraints?: Record<string, unknown>;
+    cnf?: PassportConfirmation;  // bind the passport to an agent key
   }): Promise<void> {
     const sessionId = config.sessionId ?? 'test';
     const session = await this.sessionManager.getOrCreateSession(sessionId);
@@ -565,7 +1414,7 @@ export class UniplexMCPServer {
     const expiresAt = new Date(now.getTime() + 24 * 60 * 60 * 1000);
     
     const mockPassport = {
-      passport_id: `passport_test_${sessionId}`,
+      passport_id: config.passportId ?? `passport_test_${sessionId}`,
       issuer_id: 'issuer_test',
       agent_id: `agent_test_${sessionId}`,
       gate_id: this.config.gate_id,
@@ -577,21 +1426,52 @@ export class UniplexMCPServer {
       signature: '0'.repeat(128),
       expires_at: expiresAt.toISOString(),
       issued_at: now.toISOString(),
+      ...(config.cnf && { cnf: config.cnf }),
     };
     
-    // Add to issuer keys for test
+    // Add to issuer keys and trusted issuers for test
     this.cacheManager.updateIssuerKeys({
       ...this.cacheManager.issuerKeys,
       'issuer_test': '0'.repeat(64), // Mock public key
     });
+    this.cacheManager.addTrustedIssuer('issuer_test');
     
-    this.sessionManager.setPassport(sessionId, mockPassport as any);
+    await this.sessionManager.setPassport(sessionId, mockPassport as any);
+  }
+  
+  /**
+   * Use a catalog without fetching it from the Uniplex API
+   */
+  setTestCatalog(catalog: CachedCatalog): void {
+    this.cacheManager.updateCatalog(catalog);
+  }
+  
+  /**
+   * Serve an MCP client over the given transport (e.g. InMemoryTransport),
+   * as its own connection
+   */
+  async connectTestTransport(transport: Transport): Promise<void> {
+    await this.createServer().connect(transport);
+  }
+  
+  /**
+   * Direct tools/list for testing
+   */
+  async listTools(): Promise<{ tools: any[] }> {
+    return this.handleListTools({
+      params: {},
+      meta: { sessionId: 'test' },
+    });
   }
   
   /**
    * Direct tool call for testing
    */
-  async callTool(params: { name: string; arguments: Record<string, unknown> }): Promise<ToolExecutionResult> {
+  async callTool(params: {
+    name: string;
+    arguments: Record<string, unknown>;
+    _meta?: Record<string, unknown>;
+  }): Promise<ToolExecutionResult> {
     return this.handleCallTool({
       params,
       meta: { sessionId: 'test' },
@@ -599,6 +1479,105 @@ export class UniplexMCPServer {
   }
 }
 
+// =============================================================================
+// DENIAL HELPERS
+// =============================================================================
+
+/**
+ * Denial for an approval token that can't be redeemed for this call
+ */
+function approvalDenial(message: string): VerifyResult {
+  return {
+    allowed: false,
+    decision: 'deny',
+    constraint_decision: 'BLOCK',
+    denial: { code: GateDenyReason.APPROVAL_INVALID, message },
+    confident: true,
+  };
+}
+
+/**
+ * Denial for a holder proof whose nonce was already recorded
+ */
+function holderProofReplayed(): VerifyResult {
+  return {
+    allowed: false,
+    decision: 'deny',
+    constraint_decision: 'BLOCK',
+    denial: { code: GateDenyReason.HOLDER_PROOF_INVALID, message: 'Holder proof nonce was already used' },
+    confident: true,
+  };
+}
+
+/**
+ * The approval record embedded in the verification attestation
+ */
+function toAttestationApproval(
+  approval: PendingApproval,
+  method: AttestationApproval['method']
+): AttestationApproval {
+  return {
+    approval_id: approval.approval_id,
+    method,
+    decided_by: approval.decided_by,
+    decided_at: approval.decided_at,
+  };
+}
+
+// =============================================================================
+// HTTP HELPERS
+// =============================================================================
+
+const MAX_HTTP_BODY_BYTES = 1024 * 1024;
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+class RequestBodyTooLargeError extends Error {
+  constructor() {
+    super(`Request body exceeds ${MAX_HTTP_BODY_BYTES} bytes`);
+  }
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_HTTP_BODY_BYTES) {
+      throw new RequestBodyTooLargeError();
+    }
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Host/Origin allow-lists for the transports. A loopback listener only
+ * answers to loopback names unless told otherwise, so a web page can't
+ * reach it through a rebound DNS name.
+ */
+function httpTransportSecurity(options: HttpServerOptions, host: string, port: number): HttpTransportSecurity {
+  const allowedHosts = options.allowed_hosts
+    ?? (LOOPBACK_HOSTS.includes(host) ? ['localhost', '127.0.0.1', '[::1]'].map(name => `${name}:${port}`) : undefined);
+  const allowedOrigins = options.allowed_origins;
+  
+  if (!allowedHosts && !allowedOrigins) return {};
+  return { enableDnsRebindingProtection: true, allowedHosts, allowedOrigins };
+}
+
+function writeJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  }));
+}
+
 // =============================================================================
 // EXPORTS
 // =============================================================================
@@ -3,31 +3,152 @@
  * Version: 1.0.0
  * 
  * Manages MCP sessions with passport tracking.
- * Sessions persist passports in memory for tool calls.
+ * Sessions are kept in a pluggable SessionStore (in-memory by default)
+ * and swept for inactivity and passport expiry in the background.
  * 
  * Cross-ref: MCP Server Spec Section 5.2 (Session Management)
  */
 
-import { Session, Passport, SafeDefaultConfig } from './types.js';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { Session, Passport, SafeDefaultConfig, SessionStore } from './types.js';
 import { buildPassportIndex, hasPermission, getPermissionConstraints } from './verification.js';
 
-export class SessionManager {
+const DEFAULT_MAX_INACTIVE_MINUTES = 30;
+const DEFAULT_SWEEP_INTERVAL_MINUTES = 1;
+// last_activity only feeds the inactivity sweep, so it need not be
+// written on every request
+const ACTIVITY_WRITE_INTERVAL_MS = 60 * 1000;
+
+// =============================================================================
+// SESSION STORES
+// =============================================================================
+
+/**
+ * Default store: sessions live in process memory only
+ */
+export class InMemorySessionStore implements SessionStore {
   private sessions: Map<string, Session> = new Map();
+  
+  async get(sessionId: string): Promise<Session | undefined> {
+    return this.sessions.get(sessionId);
+  }
+  
+  async set(session: Session): Promise<void> {
+    this.sessions.set(session.session_id, session);
+  }
+  
+  async delete(sessionId: string): Promise<boolean> {
+    return this.sessions.delete(sessionId);
+  }
+  
+  async list(): Promise<Session[]> {
+    return Array.from(this.sessions.values());
+  }
+}
+
+/**
+ * Reference persistent store: one JSON file per session in a directory.
+ * Files are replaced atomically, so replicas sharing the directory and
+ * restarted processes see the same sessions.
+ */
+export class FileSessionStore implements SessionStore {
+  constructor(private directory: string) {}
+  
+  async get(sessionId: string): Promise<Session | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.pathFor(sessionId), 'utf8')) as Session;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+  
+  async set(session: Session): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const path = this.pathFor(session.session_id);
+    const tmpPath = `${path}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(toStoredSession(session)));
+    await fs.rename(tmpPath, path);
+  }
+  
+  async delete(sessionId: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.pathFor(sessionId));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+  
+  async list(): Promise<Session[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    
+    const sessions = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => this.get(decodeURIComponent(file.slice(0, -'.json'.length))))
+    );
+    return sessions.filter((session): session is Session => session !== undefined);
+  }
+  
+  private pathFor(sessionId: string): string {
+    return join(this.directory, `${encodeURIComponent(sessionId)}.json`);
+  }
+}
+
+/**
+ * Drop the passport's derived indexes before persisting
+ */
+function toStoredSession(session: Session): Session {
+  if (!session.passport) return session;
+  const { claimsByKey: _, wildcardClaims: __, ...passport } = session.passport;
+  return { ...session, passport: passport as Passport };
+}
+
+// =============================================================================
+// SESSION MANAGER
+// =============================================================================
+
+export class SessionManager {
+  private store: SessionStore;
   private safeDefaultConfig: SafeDefaultConfig;
   private apiUrl: string;
   private gateId: string;
   private gateSecret?: string;
+  private maxInactiveMs: number;
+  private sweepIntervalMs: number;
+  private clockSkewMs: number;
+  private sweepInterval?: NodeJS.Timeout;
+  private onSessionExpired?: (sessionId: string) => void;
   
   constructor(config: {
     safe_default: SafeDefaultConfig;
     uniplex_api_url: string;
     gate_id: string;
     gate_secret?: string;
+    store?: SessionStore;
+    max_inactive_minutes?: number;
+    sweep_interval_minutes?: number;
+    clock_skew_seconds?: number;  // passports stay until expires_at plus this leeway
+    on_session_expired?: (sessionId: string) => void;  // called for each inactive session removed
   }) {
+    this.store = config.store ?? new InMemorySessionStore();
     this.safeDefaultConfig = config.safe_default;
     this.apiUrl = config.uniplex_api_url;
     this.gateId = config.gate_id;
     this.gateSecret = config.gate_secret;
+    this.maxInactiveMs = (config.max_inactive_minutes ?? DEFAULT_MAX_INACTIVE_MINUTES) * 60 * 1000;
+    this.sweepIntervalMs = (config.sweep_interval_minutes ?? DEFAULT_SWEEP_INTERVAL_MINUTES) * 60 * 1000;
+    this.clockSkewMs = (config.clock_skew_seconds ?? 0) * 1000;
+    this.onSessionExpired = config.on_session_expired;
   }
   
   // ==========================================================================
@@ -38,10 +159,14 @@ export class SessionManager {
     sessionId: string,
     meta?: { agentId?: string; issuerId?: string }
   ): Promise<Session> {
-    let session = this.sessions.get(sessionId);
+    let session = await this.getSession(sessionId);
     
     if (session) {
-      session.last_activity = Date.now();
+      const now = Date.now();
+      if (now - session.last_activity >= ACTIVITY_WRITE_INTERVAL_MS) {
+        session.last_activity = now;
+        await this.store.set(session);
+      }
       return session;
     }
     
@@ -64,44 +189,54 @@ export class SessionManager {
       }
     }
     
-    this.sessions.set(sessionId, session);
+    await this.store.set(session);
     return session;
   }
   
-  getSession(sessionId: string): Session | undefined {
-    return this.sessions.get(sessionId);
+  /**
+   * Load a session, rebuilding the passport index if the store
+   * returned a persisted (wire form) passport
+   */
+  async getSession(sessionId: string): Promise<Session | undefined> {
+    const session = await this.store.get(sessionId);
+    if (session?.passport && !session.passport.claimsByKey) {
+      session.passport = buildPassportIndex(session.passport);
+    }
+    return session;
   }
   
-  deleteSession(sessionId: string): boolean {
-    return this.sessions.delete(sessionId);
+  async deleteSession(sessionId: string): Promise<boolean> {
+    return this.store.delete(sessionId);
   }
   
-  listSessions(): Session[] {
-    return Array.from(this.sessions.values());
+  async listSessions(): Promise<Session[]> {
+    return this.store.list();
   }
   
   // ==========================================================================
   // PASSPORT MANAGEMENT
   // ==========================================================================
   
-  setPassport(sessionId: string, passport: Passport): void {
-    const session = this.sessions.get(sessionId);
+  async setPassport(sessionId: string, passport: Passport): Promise<void> {
+    const session = await this.getSession(sessionId);
     if (session) {
       // Ensure claimsByKey is built
       session.passport = buildPassportIndex(passport);
       session.last_activity = Date.now();
+      await this.store.set(session);
     }
   }
   
-  getPassport(sessionId: string): Passport | null {
-    return this.sessions.get(sessionId)?.passport ?? null;
+  async getPassport(sessionId: string): Promise<Passport | null> {
+    return (await this.getSession(sessionId))?.passport ?? null;
   }
   
-  clearPassport(sessionId: string): void {
-    const session = this.sessions.get(sessionId);
+  async clearPassport(sessionId: string): Promise<void> {
+    const session = await this.getSession(sessionId);
     if (session) {
       session.passport = null;
       session.last_activity = Date.now();
+      await this.store.set(session);
     }
   }
   
@@ -109,22 +244,22 @@ export class SessionManager {
   // PERMISSION QUERIES (uses session's passport)
   // ==========================================================================
   
-  sessionHasPermission(sessionId: string, action: string): boolean {
-    const passport = this.getPassport(sessionId);
+  async sessionHasPermission(sessionId: string, action: string): Promise<boolean> {
+    const passport = await this.getPassport(sessionId);
     return hasPermission(passport, action);
   }
   
-  getSessionPermissions(sessionId: string): string[] {
-    const passport = this.getPassport(sessionId);
+  async getSessionPermissions(sessionId: string): Promise<string[]> {
+    const passport = await this.getPassport(sessionId);
     if (!passport) return [];
     return passport.permissions.map(p => p.permission_key);
   }
   
-  getSessionConstraints(
+  async getSessionConstraints(
     sessionId: string,
     action?: string
-  ): Record<string, unknown> | undefined {
-    const passport = this.getPassport(sessionId);
+  ): Promise<Record<string, unknown> | undefined> {
+    const passport = await this.getPassport(sessionId);
     if (!passport) return undefined;
     
     if (action) {
@@ -179,14 +314,14 @@ export class SessionManager {
   /**
    * Remove sessions that have been inactive for too long
    */
-  cleanupInactiveSessions(maxInactiveMs: number = 30 * 60 * 1000): number {
+  async cleanupInactiveSessions(maxInactiveMs: number = this.maxInactiveMs): Promise<number> {
     const now = Date.now();
     let cleaned = 0;
     
-    for (const [sessionId, session] of this.sessions.entries()) {
-      if (now - session.last_activity > maxInactiveMs) {
-        this.sessions.delete(sessionId);
+    for (const session of await this.store.list()) {
+      if (now - session.last_activity > maxInactiveMs && await this.store.delete(session.session_id)) {
         cleaned++;
+        this.onSessionExpired?.(session.session_id);
       }
     }
     
@@ -194,21 +329,56 @@ export class SessionManager {
   }
   
   /**
-   * Remove sessions with expired passports
+   * Drop expired passports (past expires_at plus the clock skew leeway)
+   * from sessions
    */
-  cleanupExpiredPassports(): number {
-    const now = new Date();
+  async cleanupExpiredPassports(): Promise<number> {
+    const expiredBefore = Date.now() - this.clockSkewMs;
     let cleaned = 0;
     
-    for (const [sessionId, session] of this.sessions.entries()) {
-      if (session.passport && new Date(session.passport.expires_at) < now) {
-        session.passport = null;
-        cleaned++;
-      }
+    for (const listed of await this.store.list()) {
+      const expired = listed.passport;
+      if (!expired || !(Date.parse(expired.expires_at) < expiredBefore)) continue;
+      
+      // The listing may be stale: re-read, so a passport presented since
+      // then isn't cleared along with the expired one
+      const session = await this.store.get(listed.session_id);
+      if (session?.passport?.passport_id !== expired.passport_id
+          || session.passport.expires_at !== expired.expires_at) continue;
+      
+      session.passport = null;
+      await this.store.set(session);
+      cleaned++;
     }
     
     return cleaned;
   }
+  
+  /**
+   * Periodically remove inactive sessions and expired passports
+   */
+  startSweeper(): void {
+    this.stopSweeper();
+    this.sweepInterval = setInterval(
+      () => this.sweep().catch(console.error),
+      this.sweepIntervalMs
+    );
+    // Don't keep the process alive just to sweep
+    this.sweepInterval.unref();
+  }
+  
+  stopSweeper(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = undefined;
+    }
+  }
+  
+  async sweep(): Promise<{ sessions: number; passports: number }> {
+    const sessions = await this.cleanupInactiveSessions();
+    const passports = await this.cleanupExpiredPassports();
+    return { sessions, passports };
+  }
 }
 
 // =============================================================================
@@ -0,0 +1,309 @@
+/**
+ * Uniplex MCP Server - Signing Module
+ * Version: 1.0.0
+ *
+ * Gate signing keys for verification and consumption attestations.
+ * Attestations are signed as detached compact JWS (RFC 7515 Appendix F)
+ * with alg EdDSA and kid = signing_key_id; the matching public keys are
+ * published as a JWKS so agents can verify receipts.
+ *
+ * Gates NEVER use these keys for passport verification (issuer keys only).
+ *
+ * Cross-ref: MCP Server Spec Section 0.2 (Attestation Integrity Invariant)
+ */
+
+import { createHash, createPrivateKey } from 'crypto';
+import { readFileSync } from 'fs';
+import * as ed from '@noble/ed25519';
+import {
+  GateSigner,
+  GateJwk,
+  GateJwks,
+  SigningKeyConfig,
+} from './types.js';
+
+// noble-ed25519 needs a synchronous SHA-512 for sign/verify without WebCrypto
+ed.etc.sha512Sync = (...messages) => createHash('sha512').update(ed.etc.concatBytes(...messages)).digest();
+
+export const DEFAULT_SIGNING_KEY_ENV = 'UNIPLEX_SIGNING_KEY';
+
+// =============================================================================
+// ENCODING HELPERS
+// =============================================================================
+
+export function hexToBytes(hex: string): Uint8Array {
+  const cleanHex = hex.startsWith('0x') ? hex.slice(2) : hex;
+  const bytes = new Uint8Array(cleanHex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(cleanHex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('hex');
+}
+
+export function base64UrlEncode(data: Uint8Array | string): string {
+  return Buffer.from(data).toString('base64url');
+}
+
+export function base64UrlDecode(data: string): Uint8Array {
+  return new Uint8Array(Buffer.from(data, 'base64url'));
+}
+
+// =============================================================================
+// ED25519 VERIFICATION
+// =============================================================================
+
+/**
+ * Strict Ed25519 verification (RFC 8032, not ZIP-215).
+ * Small-order public keys are rejected: they accept forged signatures.
+ */
+export function ed25519Verify(
+  signature: Uint8Array,
+  message: Uint8Array,
+  publicKey: Uint8Array
+): boolean {
+  try {
+    if (ed.ExtendedPoint.fromHex(publicKey).isSmallOrder()) return false;
+    return ed.verify(signature, message, publicKey, { zip215: false });
+  } catch {
+    return false;
+  }
+}
+
+// =============================================================================
+// KEY LOADING
+// =============================================================================
+
+/**
+ * Parse Ed25519 private key material: a 32-byte hex seed or a PKCS#8 PEM
+ */
+export function parsePrivateKey(material: string): Uint8Array {
+  const trimmed = material.trim();
+
+  if (trimmed.startsWith('-----BEGIN')) {
+    const key = createPrivateKey(trimmed);
+    if (key.asymmetricKeyType !== 'ed25519') {
+      throw new Error(`Signing key must be Ed25519, got ${key.asymmetricKeyType}`);
+    }
+    const jwk = key.export({ format: 'jwk' });
+    return base64UrlDecode(jwk.d as string);
+  }
+
+  if (/^(0x)?[0-9a-fA-F]{64}$/.test(trimmed)) {
+    return hexToBytes(trimmed);
+  }
+
+  throw new Error('Signing key must be a 32-byte hex seed or a PKCS#8 PEM');
+}
+
+/**
+ * Load the gate's private key from config, file or environment (in that order).
+ * Returns undefined when no key is configured.
+ */
+export function loadSigningKey(
+  source: SigningKeyConfig = {},
+  env: NodeJS.ProcessEnv = process.env
+): Uint8Array | undefined {
+  if (source.private_key) {
+    return parsePrivateKey(source.private_key);
+  }
+  if (source.private_key_file) {
+    return parsePrivateKey(readFileSync(source.private_key_file, 'utf8'));
+  }
+
+  const fromEnv = env[source.private_key_env ?? DEFAULT_SIGNING_KEY_ENV];
+  return fromEnv ? parsePrivateKey(fromEnv) : undefined;
+}
+
+// =============================================================================
+// SIGNERS
+// =============================================================================
+
+/**
+ * In-process Ed25519 signer
+ */
+export class Ed25519Signer implements GateSigner {
+  readonly kid: string;
+  private privateKey: Uint8Array;
+
+  constructor(kid: string, privateKey: Uint8Array) {
+    if (privateKey.length !== 32) {
+      throw new Error('Ed25519 private key must be 32 bytes');
+    }
+    this.kid = kid;
+    this.privateKey = privateKey;
+  }
+
+  /**
+   * Create a signer with a fresh random key (not persisted)
+   */
+  static generate(kid: string): Ed25519Signer {
+    return new Ed25519Signer(kid, ed.utils.randomPrivateKey());
+  }
+
+  async sign(message: Uint8Array): Promise<Uint8Array> {
+    return ed.sign(message, this.privateKey);
+  }
+
+  async getPublicKey(): Promise<Uint8Array> {
+    return ed.getPublicKey(this.privateKey);
+  }
+}
+
+/**
+ * Resolve the gate signer: an explicit signer, a configured key, or an
+ * ephemeral key (attestations then only verify for this process's lifetime).
+ */
+export function createGateSigner(config: {
+  gate_id: string;
+  signing_key_id?: string;
+  signing_key?: SigningKeyConfig;
+  signer?: GateSigner;
+}): GateSigner {
+  if (config.signer) return config.signer;
+
+  const kid = config.signing_key_id ?? `${config.gate_id}#key-1`;
+  const privateKey = loadSigningKey(config.signing_key);
+  if (privateKey) {
+    return new Ed25519Signer(kid, privateKey);
+  }
+
+  console.error(
+    `No gate signing key configured (set ${DEFAULT_SIGNING_KEY_ENV}); ` +
+    'attestations are signed with an ephemeral key'
+  );
+  return Ed25519Signer.generate(kid);
+}
+
+// =============================================================================
+// JWS
+// =============================================================================
+
+export interface JwsHeader {
+  alg: string;
+  kid?: string;
+  b64?: boolean;
+  crit?: string[];
+}
+
+/**
+ * Sign a payload as a compact JWS with alg EdDSA and kid = signer.kid
+ */
+export async function signJws(payload: string, signer: GateSigner): Promise<string> {
+  const header = base64UrlEncode(JSON.stringify({ alg: 'EdDSA', kid: signer.kid }));
+  const body = base64UrlEncode(payload);
+  const signature = await signer.sign(new TextEncoder().encode(`${header}.${body}`));
+  return `${header}.${body}.${base64UrlEncode(signature)}`;
+}
+
+/**
+ * Sign a payload as a detached compact JWS (`header..signature`).
+ * The payload travels alongside, e.g. as attestation_json.
+ */
+export async function signDetachedJws(payload: string, signer: GateSigner): Promise<string> {
+  const [header, , signature] = (await signJws(payload, signer)).split('.');
+  return `${header}..${signature}`;
+}
+
+/**
+ * Decode the protected header of a compact JWS
+ */
+export function decodeJwsHeader(jws: string): JwsHeader {
+  const [header] = jws.split('.');
+  return JSON.parse(Buffer.from(header, 'base64url').toString('utf8'));
+}
+
+/**
+ * Verify a compact JWS, attached or detached.
+ * For a detached JWS, pass the payload it was signed over; an attached
+ * JWS is then rejected, so it can't vouch for a payload it didn't sign.
+ *
+ * @param publicKey Hex Ed25519 public key, or a JWKS (key selected by kid)
+ */
+export function verifyJws(
+  jws: string,
+  publicKey: string | GateJwks,
+  detachedPayload?: string
+): boolean {
+  try {
+    const parts = jws.split('.');
+    if (parts.length !== 3) return false;
+
+    const [header, attachedBody, signature] = parts;
+    const decoded = decodeJwsHeader(jws);
+    if (decoded.alg !== 'EdDSA' || decoded.crit !== undefined) return false;
+
+    if (detachedPayload !== undefined && attachedBody) return false;
+
+    const body = detachedPayload !== undefined ? base64UrlEncode(detachedPayload) : attachedBody;
+    if (!body) return false;
+
+    const keyHex = typeof publicKey === 'string'
+      ? publicKey
+      : publicKeyFromJwks(publicKey, decoded.kid);
+    if (!keyHex) return false;
+
+    return ed25519Verify(
+      base64UrlDecode(signature),
+      new TextEncoder().encode(`${header}.${body}`),
+      hexToBytes(keyHex)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verify a detached JWS over a payload.
+ * Matches the `verify` callback of verifyConsumptionAttestation().
+ */
+export async function verifyDetachedJws(
+  payload: string,
+  jws: string,
+  publicKey: string | GateJwks
+): Promise<boolean> {
+  return verifyJws(jws, publicKey, payload);
+}
+
+/**
+ * Verify a gate attestation's signature against the gate's public key or JWKS
+ */
+export function verifyAttestation(
+  attestation: { attestation_json: string; signature: string },
+  publicKey: string | GateJwks
+): { valid: boolean; error?: string } {
+  if (!verifyJws(attestation.signature, publicKey, attestation.attestation_json)) {
+    return { valid: false, error: 'Invalid signature' };
+  }
+  return { valid: true };
+}
+
+// =============================================================================
+// JWKS
+// =============================================================================
+
+export async function signerToJwk(signer: GateSigner): Promise<GateJwk> {
+  return {
+    kty: 'OKP',
+    crv: 'Ed25519',
+    x: base64UrlEncode(await signer.getPublicKey()),
+    kid: signer.kid,
+    use: 'sig',
+    alg: 'EdDSA',
+  };
+}
+
+/**
+ * Find a key in a JWKS and return it as a hex public key.
+ * Without a kid, a single-key JWKS matches.
+ */
+export function publicKeyFromJwks(jwks: GateJwks, kid?: string): string | undefined {
+  const candidates = jwks.keys.filter(k => k.kty === 'OKP' && k.crv === 'Ed25519');
+  const jwk = kid !== undefined
+    ? candidates.find(k => k.kid === kid)
+    : (candidates.length === 1 ? candidates[0] : undefined);
+  return jwk ? bytesToHex(base64UrlDecode(jwk.x)) : undefined;
+}
@@ -0,0 +1,207 @@
+/**
+ * Uniplex MCP Server - Spend Module
+ * Version: 1.0.0
+ *
+ * Cumulative spend tracking for core:cost:max_cumulative.
+ * Totals are kept per passport and permission, read synchronously on the
+ * verification hot path and written through to a pluggable SpendStore
+ * after a successful tool call. While a call runs, its amount is reserved
+ * so concurrent calls on the same passport count it against the budget.
+ *
+ * Cross-ref: MCP Server Spec Section 14B (Cost constraints)
+ */
+
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { SpendRecord, SpendReservation, SpendStore, SpendTracker } from './types.js';
+
+// =============================================================================
+// SPEND STORES
+// =============================================================================
+
+/**
+ * Reference persistent store: all totals in a single JSON file,
+ * replaced atomically on every write. Suitable for a single gate process;
+ * replicas sharing totals need a store with an atomic increment.
+ */
+export class FileSpendStore implements SpendStore {
+  private records?: Map<string, SpendRecord>;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(private path: string) {}
+
+  async list(): Promise<SpendRecord[]> {
+    return Array.from((await this.load()).values());
+  }
+
+  async add(passportId: string, permissionKey: string, amount: number): Promise<SpendRecord> {
+    // Serialize writes so concurrent calls don't lose increments
+    const write = this.writes.then(async () => {
+      const records = await this.load();
+      const key = spendKey(passportId, permissionKey);
+      const record: SpendRecord = {
+        passport_id: passportId,
+        permission_key: permissionKey,
+        total: (records.get(key)?.total ?? 0) + amount,
+        updated_at: new Date().toISOString(),
+      };
+      records.set(key, record);
+      await this.persist(records);
+      return record;
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  private async load(): Promise<Map<string, SpendRecord>> {
+    if (this.records) return this.records;
+
+    let stored: SpendRecord[] = [];
+    try {
+      stored = JSON.parse(await fs.readFile(this.path, 'utf8')) as SpendRecord[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    this.records = new Map(stored.map(r => [spendKey(r.passport_id, r.permission_key), r]));
+    return this.records;
+  }
+
+  private async persist(records: Map<string, SpendRecord>): Promise<void> {
+    await fs.mkdir(dirname(this.path), { recursive: true });
+    const tmpPath = `${this.path}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(Array.from(records.values())));
+    await fs.rename(tmpPath, this.path);
+  }
+}
+
+function spendKey(passportId: string, permissionKey: string): string {
+  return `${passportId}\n${permissionKey}`;
+}
+
+// =============================================================================
+// SPEND TRACKER
+// =============================================================================
+
+/**
+ * In-memory totals, loaded from the store at startup and kept in step
+ * with it on every record()
+ */
+export class CumulativeSpendTracker implements SpendTracker {
+  // passport_id -> permission_key -> total
+  private totals: Map<string, Map<string, number>> = new Map();
+  // passport_id -> permission_key -> amount reserved by calls in flight
+  private reserved: Map<string, Map<string, number>> = new Map();
+
+  constructor(private store?: SpendStore) {}
+
+  /**
+   * Load persisted totals (call once before serving)
+   */
+  async load(): Promise<void> {
+    if (!this.store) return;
+    for (const record of await this.store.list()) {
+      this.setTotal(record.passport_id, record.permission_key, record.total);
+    }
+  }
+
+  /**
+   * Recorded spend plus amounts reserved by calls still running
+   */
+  getSpent(passportId: string, permissionKey?: string): number {
+    return sumAmounts(this.totals, passportId, permissionKey)
+      + sumAmounts(this.reserved, passportId, permissionKey);
+  }
+
+  async record(passportId: string, permissionKey: string, amount: number): Promise<void> {
+    if (!(amount > 0)) return;
+
+    if (!this.store) {
+      this.setTotal(passportId, permissionKey, sumAmounts(this.totals, passportId, permissionKey) + amount);
+      return;
+    }
+
+    // The store's total wins: other replicas may have spent too
+    const record = await this.store.add(passportId, permissionKey, amount);
+    this.setTotal(passportId, permissionKey, record.total);
+  }
+
+  /**
+   * Hold an amount against the passport's budgets until the call finishes.
+   * Reserve in the same tick as the verifyLocally that checked the budget,
+   * so no other call can pass the check in between.
+   */
+  reserve(passportId: string, permissionKey: string, amount: number): SpendReservation {
+    if (!(amount > 0)) {
+      return { commit: async () => {}, release: () => {} };
+    }
+
+    addAmount(this.reserved, passportId, permissionKey, amount);
+    let held = true;
+    const release = () => {
+      if (!held) return;
+      held = false;
+      addAmount(this.reserved, passportId, permissionKey, -amount);
+    };
+
+    return {
+      release,
+      commit: async () => {
+        if (!held) return;
+        // Keep the hold until the spend is recorded, so the budget never
+        // briefly reads low
+        try {
+          await this.record(passportId, permissionKey, amount);
+        } finally {
+          release();
+        }
+      },
+    };
+  }
+
+  private setTotal(passportId: string, permissionKey: string, total: number): void {
+    let byPermission = this.totals.get(passportId);
+    if (!byPermission) {
+      byPermission = new Map();
+      this.totals.set(passportId, byPermission);
+    }
+    byPermission.set(permissionKey, total);
+  }
+}
+
+function sumAmounts(
+  amounts: Map<string, Map<string, number>>,
+  passportId: string,
+  permissionKey?: string
+): number {
+  const byPermission = amounts.get(passportId);
+  if (!byPermission) return 0;
+  if (permissionKey !== undefined) return byPermission.get(permissionKey) ?? 0;
+
+  let total = 0;
+  for (const amount of byPermission.values()) total += amount;
+  return total;
+}
+
+function addAmount(
+  amounts: Map<string, Map<string, number>>,
+  passportId: string,
+  permissionKey: string,
+  amount: number
+): void {
+  let byPermission = amounts.get(passportId);
+  if (!byPermission) {
+    byPermission = new Map();
+    amounts.set(passportId, byPermission);
+  }
+
+  const total = (byPermission.get(permissionKey) ?? 0) + amount;
+  if (total > 0) {
+    byPermission.set(permissionKey, total);
+    return;
+  }
+
+  // Released reservations shouldn't leave empty entries behind
+  byPermission.delete(permissionKey);
+  if (byPermission.size === 0) amounts.delete(passportId);
+}
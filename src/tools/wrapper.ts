@@ -16,6 +16,7 @@ import {
   VerifyResult,
   TransformMode,
   ConsumptionAttestation,
+  RateLimitStatus,
 } from '../types.js';
 import { transformToCanonical } from '../transforms.js';
 
@@ -139,6 +140,10 @@ export function formatPermissionDenied(
   
   let message = denial.message;
   
+  if (denial.retry_after_seconds !== undefined) {
+    message += ` Retry after ${denial.retry_after_seconds} seconds.`;
+  }
+  
   // Add upgrade hint if available
   if (denial.upgrade_template) {
     message += `\n\nYou can request the "${denial.upgrade_template}" permission template to gain access.`;
@@ -160,6 +165,36 @@ export function formatPermissionDenied(
   return message;
 }
 
+/**
+ * Format the prompt shown to the user when asking them to approve a
+ * SUSPENDed call in-band (MCP elicitation)
+ */
+export function formatApprovalPrompt(
+  tool: ToolDefinition,
+  verification: VerifyResult,
+  context: RequestContext
+): string {
+  let message = `Approve a call to "${tool.name}" (${tool.permission_key})?`;
+
+  if (verification.denial?.message) {
+    message += `\n\n${verification.denial.message}`;
+  }
+
+  if (context.amount_canonical !== undefined) {
+    message += `\n\nAmount: ${context.amount_canonical}`;
+  }
+
+  const constraints = Object.entries(verification.effective_constraints ?? {});
+  if (constraints.length) {
+    message += '\n\nConstraints:';
+    for (const [key, value] of constraints) {
+      message += `\n  ${key}: ${JSON.stringify(value)}`;
+    }
+  }
+
+  return message;
+}
+
 // =============================================================================
 // TOOL EXECUTION RESULT
 // =============================================================================
@@ -176,6 +211,15 @@ export interface ToolExecutionResult {
       signature: string;
     };
     uniplex_consumption?: ConsumptionAttestation;
+    uniplex_confident?: boolean;  // false when allowed on stale caches (fail_open)
+    uniplex_stale_caches?: VerifyResult['stale_caches'];
+    uniplex_rate_limit?: RateLimitStatus;  // quota left after this call
+    uniplex_approval?: {
+      approval_id: string;
+      status: string;
+      expires_at: string;
+      approval_url?: string;
+    };
   };
 }
 
@@ -317,7 +361,8 @@ export function toMCPToolFormat(
   tool: ToolDefinition,
   sessionAllowed: boolean,
   reason?: string,
-  effectiveConstraints?: Record<string, unknown>
+  effectiveConstraints?: Record<string, unknown>,
+  rateLimit?: RateLimitStatus
 ): object {
   return {
     name: tool.name,
@@ -339,6 +384,7 @@ export function toMCPToolFormat(
         reason: sessionAllowed ? undefined : reason,
         upgrade_template: sessionAllowed ? undefined : undefined, // Would come from catalog
         effective_constraints: sessionAllowed ? effectiveConstraints : undefined,
+        rate_limit: sessionAllowed ? rateLimit : undefined,
       },
     },
   };
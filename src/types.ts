@@ -94,6 +94,24 @@ export const CONSTRAINT_TYPES: Record<string, ConstraintTypeDefinition> = {
 export type DenialCode = DenyReason;
 export const DenialCode = DenyReason;
 
+/**
+ * Gate-local denial codes for checks not covered by the protocol SDK's
+ * DenyReason enum. Values use the same snake_case wire form.
+ */
+export const GateDenyReason = {
+  AUDIENCE_MISMATCH: 'audience_mismatch',
+  REVOCATION_LIST_STALE: 'revocation_list_stale',
+  APPROVAL_INVALID: 'approval_invalid',
+  PASSPORT_NOT_YET_VALID: 'passport_not_yet_valid',
+  PASSPORT_LIFETIME_EXCEEDED: 'passport_lifetime_exceeded',
+  HOLDER_PROOF_INVALID: 'holder_proof_invalid',
+} as const;
+
+export type GateDenyReason = typeof GateDenyReason[keyof typeof GateDenyReason];
+
+/** Any denial code a gate can emit. */
+export type DenyCode = DenyReason | GateDenyReason;
+
 // =============================================================================
 // PASSPORT
 // =============================================================================
@@ -111,14 +129,71 @@ export interface Passport {
   permissions: PassportPermission[];
   constraints: Record<string, unknown>;
   signature: string;
+  kid?: string;        // issuer key that signed the passport
+  audience?: string[]; // further gate_ids or `trust_network:<id>` the passport is valid for
+  cnf?: PassportConfirmation;  // agent key the holder must prove possession of
   expires_at: string;  // RFC3339 timestamp
   issued_at: string;   // RFC3339 timestamp
+  not_before?: string; // RFC3339 timestamp
   catalog_version_pin?: Record<string, number>;  // gate_id -> version
 
+  // Compact JWS the passport was decoded from (decodePassportJws); its
+  // signature is verified instead of `signature`. Never read from JSON input.
+  jws?: string;
+
   // Computed at load time for O(1) lookup
   claimsByKey: Record<string, PassportPermission>;
+  // Computed at load time: wildcard prefix ('flights:' for 'flights:*') -> grant
+  wildcardClaims?: Record<string, PassportPermission>;
+}
+
+/**
+ * JWT claims of a passport encoded as a compact JWS (encodePassportAsJws)
+ */
+export interface PassportJwtClaims {
+  jti: string;          // passport_id
+  iss: string;          // issuer_id
+  sub: string;          // agent_id
+  aud: string | string[];  // gate_id, then audience
+  exp: number;          // expires_at, Unix seconds
+  iat: number;          // issued_at, Unix seconds
+  nbf?: number;         // not_before, Unix seconds
+  permissions: PassportPermission[];
+  constraints?: Record<string, unknown>;
+  catalog_version_pin?: Record<string, number>;
+  cnf?: PassportConfirmation;
 }
 
+// =============================================================================
+// ISSUER KEYS
+// =============================================================================
+
+export type IssuerKeyStatus = 'active' | 'retiring' | 'revoked';
+
+/**
+ * One issuer signing key (Ed25519 JWK).
+ * A key verifies passports between not_before and not_after unless revoked;
+ * retiring keys still verify but no longer sign new passports.
+ */
+export interface IssuerJwk {
+  kty: 'OKP';
+  crv: 'Ed25519';
+  x: string;  // base64url public key
+  kid?: string;
+  status?: IssuerKeyStatus;  // default: active
+  not_before?: string;       // RFC3339
+  not_after?: string;        // RFC3339
+}
+
+export interface IssuerKeyset {
+  keys: IssuerJwk[];
+}
+
+/**
+ * issuer_id -> keyset, or a single hex Ed25519 public key
+ */
+export type IssuerKeys = Record<string, string | IssuerKeyset>;
+
 // =============================================================================
 // CATALOG
 // =============================================================================
@@ -131,12 +206,14 @@ export interface CatalogPermission {
   constraints: Record<string, unknown>;
   default_template?: string;
   required_constraints?: string[];
+  trust_level_required?: number;  // minimum issuer trust level
 }
 
 export interface CatalogVersion {
   version: number;
   permissionsByKey: Record<string, CatalogPermission>;
-  published_at: string;
+  published_at?: string;  // RFC3339, as published; absent if the API sent none
+  content_hash?: string;  // computeCatalogContentHash(); pins the terms attestations were made under
 }
 
 export interface CachedCatalog {
@@ -155,9 +232,12 @@ export interface CachedCatalog {
 // =============================================================================
 
 export interface VerifyDenial {
-  code: DenyReason;
+  code: DenyCode;
   message: string;
   upgrade_template?: string;
+  /** Set on RATE_LIMITED: when to retry and the quota that was exhausted */
+  retry_after_seconds?: number;
+  rate_limit?: RateLimitStatus;
 }
 
 /**
@@ -177,19 +257,30 @@ export interface VerifyResult {
   decision: 'permit' | 'deny';
   /** Internal three-tier decision from CEL. */
   constraint_decision?: ConstraintDecision;
-  /** Populated on SUSPEND: ["approval_required"]. */
+  /** Populated on SUSPEND: ["approval_required"]; ["missing_context"] for missing required constraints. */
   reason_codes?: string[];
   /** Populated on SUSPEND: ["require_approval"]. */
   obligations?: string[];
   denial?: VerifyDenial;
   effective_constraints?: Record<string, unknown>;
   confident: boolean;  // true if cache was fresh enough
+  /** Caches past their max age when the decision was made (fail_open). */
+  stale_caches?: StaleCache[];
+  /** Quota left after this call, when rate limits apply */
+  rate_limit?: RateLimitStatus;
+  /** Catalog version (and its content hash) a permit was decided against */
+  catalog_version?: number;
+  catalog_content_hash?: string;
+  /** Set on a permit with a holder proof: record it in the NonceCache */
+  holder_nonce?: HolderNonce;
 }
 
+export type StaleCache = 'catalog' | 'revocation_list';
+
 export interface VerifyRequest {
   passport: Passport | null;
   catalog: CachedCatalog;
-  issuerKeys: Record<string, string>;
+  issuerKeys: IssuerKeys;
   revocationList: Set<string>;
   action: string;
   context: RequestContext;
@@ -201,12 +292,123 @@ export type RequestContext = Record<string, unknown>;
 // RATE LIMITING
 // =============================================================================
 
+/**
+ * At most `max` calls per fixed window of `windowMs`
+ */
+export interface RateLimitWindow {
+  max: number;
+  windowMs: number;
+}
+
+/**
+ * `limits` are per-call windows (from the merged catalog + passport
+ * constraints), applied on top of any limits configured on the limiter.
+ */
 export interface RateLimiter {
-  check(action: string, passportId?: string): boolean;
-  increment(action: string, passportId?: string): void;
+  check(action: string, passportId?: string, limits?: RateLimitWindow[]): boolean;
+  increment(action: string, passportId?: string, limits?: RateLimitWindow[]): void;
+  /**
+   * Atomic check + increment: counts the call only if every window has
+   * room. Limiters without it get check() then increment().
+   */
+  tryConsume?(action: string, passportId?: string, limits?: RateLimitWindow[]): boolean;
+  /** Quota of the most constrained window, for pacing hints */
+  status?(action: string, passportId?: string, limits?: RateLimitWindow[]): RateLimitStatus | undefined;
   reset(action: string, passportId?: string): void;
 }
 
+/**
+ * Remaining quota in the most constrained rate limit window
+ */
+export interface RateLimitStatus {
+  limit: number;
+  remaining: number;
+  window_seconds: number;
+  reset_at: string;              // RFC3339, when the window is fully replenished
+  retry_after_seconds?: number;  // set when remaining is 0
+}
+
+export type RateLimitAlgorithm = 'fixed_window' | 'sliding_log' | 'sliding_window' | 'token_bucket';
+
+/**
+ * Outcome of counting a call in a shared store, with the quota of its
+ * most constrained window afterwards (for Retry-After when refused)
+ */
+export interface RateLimitConsumeResult {
+  allowed: boolean;
+  status?: RateLimitStatus;
+}
+
+/**
+ * Shared counters for gate replicas. tryConsume must be atomic across
+ * all of the call's windows.
+ */
+export interface RateLimitStore {
+  tryConsume(
+    key: string,
+    algorithm: RateLimitAlgorithm,
+    limits: RateLimitWindow[],
+    now: number
+  ): Promise<RateLimitConsumeResult>;
+  /** Quota without counting a call, for tools/list hints */
+  status?(
+    key: string,
+    algorithm: RateLimitAlgorithm,
+    limits: RateLimitWindow[],
+    now: number
+  ): Promise<RateLimitStatus | undefined>;
+}
+
+export interface RateLimitConfig {
+  algorithm?: RateLimitAlgorithm;  // default: fixed_window
+  store?: RateLimitStore;          // shared counters; default: in-process
+}
+
+// =============================================================================
+// CUMULATIVE SPEND
+// =============================================================================
+
+/**
+ * Running totals for core:cost:max_cumulative, in canonical amount units.
+ * Reads are synchronous because verifyLocally is the hot path; spend is
+ * recorded only after the tool handler succeeds.
+ */
+export interface SpendTracker {
+  /** Total for one permission, or across all of the passport's permissions */
+  getSpent(passportId: string, permissionKey?: string): number;
+  record(passportId: string, permissionKey: string, amount: number): Promise<void>;
+}
+
+/**
+ * An amount held against a passport's budgets while its call runs.
+ * commit() records it as spent; release() gives it back. Either may be
+ * called more than once; only the first call counts.
+ */
+export interface SpendReservation {
+  commit(): Promise<void>;
+  release(): void;
+}
+
+export interface SpendRecord {
+  passport_id: string;
+  permission_key: string;
+  total: number;
+  updated_at: string;  // RFC3339
+}
+
+/**
+ * Persistent spend totals. add() is an increment so shared stores can
+ * apply it atomically.
+ */
+export interface SpendStore {
+  list(): Promise<SpendRecord[]>;
+  add(passportId: string, permissionKey: string, amount: number): Promise<SpendRecord>;
+}
+
+export interface SpendConfig {
+  store?: SpendStore;  // default: in-memory only
+}
+
 // =============================================================================
 // TOOL DEFINITION
 // =============================================================================
@@ -254,6 +456,36 @@ export interface Session {
   last_activity: number;
 }
 
+/**
+ * Persistence for agent sessions. Implement this to share sessions
+ * across replicas or keep them across restarts (e.g. SQL, Redis).
+ *
+ * Stores persist the wire passport; SessionManager rebuilds the
+ * claimsByKey index when a session is loaded.
+ */
+export interface SessionStore {
+  get(sessionId: string): Promise<Session | undefined>;
+  set(session: Session): Promise<void>;
+  delete(sessionId: string): Promise<boolean>;
+  list(): Promise<Session[]>;
+}
+
+export interface SessionConfig {
+  store?: SessionStore;               // default: in-memory
+  max_inactive_minutes?: number;      // default: 30
+  sweep_interval_minutes?: number;    // default: 1
+}
+
+export interface PassportValidityConfig {
+  clock_skew_seconds?: number;    // default: 0; leeway for issuer/gate clock drift
+  max_lifetime_minutes?: number;  // default: unlimited; max expires_at - issued_at
+}
+
+export interface AudienceConfig {
+  accepted_gate_ids?: string[];  // other gate_ids this server answers for
+  enforce?: boolean;             // default: true; false skips the audience check
+}
+
 export interface SessionState {
   allowed: boolean;
   reason?: string;
@@ -279,14 +511,130 @@ export interface SwarmConfig {
   expose_grant_claiming: boolean;
 }
 
+export type FailMode = 'fail_open' | 'fail_closed';
+
 export interface CacheConfig {
   catalog_max_age_minutes: number;
   revocation_max_age_minutes: number;
-  fail_mode: 'fail_open' | 'fail_closed';
+  fail_mode: FailMode;
   fail_mode_overrides?: Record<string, {
-    fail_mode: 'fail_open' | 'fail_closed';
+    fail_mode: FailMode;
     revocation_max_age_minutes: number;
   }>;
+  snapshot?: CacheSnapshotConfig;
+  refresh_backoff?: RefreshBackoffConfig;
+  push?: CachePushConfig;
+  catalog_verification?: CatalogVerificationConfig;
+  // Keys dropped from the issuer key feed keep verifying for this long
+  // (unless revoked), so passports signed before a rotation stay valid
+  issuer_key_overlap_minutes?: number;  // default: 1440 (24h)
+}
+
+/**
+ * Checks on catalogs fetched from the Uniplex API. A catalog whose
+ * content_hash doesn't match its content, or whose signature doesn't
+ * verify, is rejected and the cached catalog kept.
+ */
+export interface CatalogVerificationConfig {
+  public_key?: string | GateJwks;  // Uniplex API catalog signing key (hex Ed25519 or JWKS)
+  require_signature?: boolean;     // reject unsigned catalogs (default: false)
+}
+
+/**
+ * Push channels that apply revocations and catalog updates as they happen.
+ * While the SSE stream is connected, revocation polling pauses; when it
+ * drops, polling resumes until the stream reconnects.
+ */
+export interface CachePushConfig {
+  sse?: {
+    url?: string;              // default: `${uniplex_api_url}/gates/${gate_id}/events`
+    // A stream silent this long (no events, no heartbeats) is dropped and
+    // reconnected; polling covers the gap
+    idle_timeout_ms?: number;  // default: 60000 (twice the 30s heartbeat)
+  };
+  webhook?: CachePushWebhookConfig;
+}
+
+/**
+ * Local receiver for push webhooks, signed with gate_secret (HMAC-SHA256)
+ */
+export interface CachePushWebhookConfig {
+  port: number;
+  host?: string;  // default: 127.0.0.1
+  path?: string;  // default: /uniplex/events
+}
+
+export type CachePushEvent =
+  | { type: 'revocations'; added?: string[]; removed?: string[] }
+  | { type: 'catalog'; version: number };  // a newer catalog version is published
+
+/**
+ * Retry delay after failed refreshes: initial_ms doubled per consecutive
+ * failure, capped at max_ms, with jitter. A success returns to the
+ * normal refresh interval.
+ */
+export interface RefreshBackoffConfig {
+  initial_ms?: number;  // default: 1000
+  max_ms?: number;      // default: 300000 (5 minutes)
+}
+
+export type CacheResource = 'catalog' | 'revocations' | 'issuer_keys' | 'trust_networks';
+
+/**
+ * Result of one refresh: new data applied, skipped because the API
+ * reported no change (304 Not Modified), or failed
+ */
+export type RefreshOutcome = 'applied' | 'skipped' | 'failed';
+
+export interface CacheRefreshStats {
+  applied: number;
+  skipped: number;
+  failed: number;
+  consecutive_failures: number;
+}
+
+/**
+ * On-disk snapshot of the verification caches, written after each refresh
+ * and loaded at startup so a gate can restart while the Uniplex API is down.
+ * Snapshots are signed with the gate key; unsigned, foreign or tampered
+ * snapshots are ignored.
+ */
+export interface CacheSnapshotConfig {
+  path: string;
+  max_age_minutes?: number;  // default: 1440 (24h); older snapshots are ignored
+}
+
+/**
+ * Cached verification data as persisted in a snapshot.
+ * Timestamps are when each part was fetched from the API.
+ */
+export interface CacheSnapshot {
+  gate_id: string;
+  saved_at: string;  // RFC3339
+  catalog: CachedCatalog | null;
+  revocations: string[];
+  revocation_cached_at: number;
+  revocation_cursor?: string;  // `since` cursor for revocation deltas
+  issuer_keys: IssuerKeys;
+  issuer_keys_cached_at: number;
+  trust_network_members: Record<string, Record<string, number>>;
+  trust_networks_cached_at: number;
+}
+
+/**
+ * Freshness of cached verification data for one action.
+ * fail_closed denies when the revocation list is stale; fail_open
+ * proceeds with a non-confident result.
+ */
+export interface CacheFreshness {
+  catalogFresh: boolean;
+  revocationFresh: boolean;
+  failMode: FailMode;
+}
+
+export interface TrustNetworkMember {
+  issuer_id: string;
+  trust_level?: number;
 }
 
 export interface AuditConfig {
@@ -324,7 +672,9 @@ export interface UniplexMCPServerConfig {
   uniplex_api_url: string;
   gate_id: string;
   gate_secret?: string;
-  signing_key_id?: string;
+  signing_key_id?: string;               // JWS kid, default: `${gate_id}#key-1`
+  signing_key?: SigningKeyConfig;        // Ed25519 key for attestations
+  signer?: GateSigner;                   // Pluggable signer (KMS/HSM); overrides signing_key
 
   // Safe default settings
   safe_default: SafeDefaultConfig;
@@ -332,9 +682,31 @@ export interface UniplexMCPServerConfig {
   // Swarm support
   swarm?: SwarmConfig;
 
+  // Session persistence and expiry
+  session?: SessionConfig;
+
+  // Passport time checks (not_before, issued_at, expiry leeway, lifetime)
+  passport_validity?: PassportValidityConfig;
+
+  // Passport audience binding (gate_id / audience)
+  audience?: AudienceConfig;
+
+  // Proof of possession for passports bound to an agent key (cnf)
+  holder_binding?: HolderBindingConfig;
+
+  // Human approval for SUSPEND decisions
+  approval?: ApprovalConfig;
+
+  // Cumulative spend totals (core:cost:max_cumulative)
+  spend?: SpendConfig;
+
+  // Rate limiting algorithm and shared counters
+  rate_limit?: RateLimitConfig;
+
   // Issuer trust
   trusted_issuers: string[];
   trust_networks?: string[];
+  issuer_trust_levels?: Record<string, number>;  // issuer_id -> trust level for trusted_issuers
 
   // Tool mappings
   tools: ToolMapping[];
@@ -361,6 +733,23 @@ export interface UniplexMCPServerConfig {
   };
 }
 
+export interface HttpServerOptions {
+  port: number;
+  host?: string;          // default: 127.0.0.1
+  path?: string;          // streamable HTTP endpoint, default: /mcp
+
+  // Legacy HTTP+SSE fallback for clients predating streamable HTTP
+  sse?: boolean;          // default: true
+  sse_path?: string;      // default: /sse
+  sse_messages_path?: string;  // default: /messages
+
+  // DNS rebinding protection: Host (host:port) and Origin values to accept.
+  // Default when listening on a loopback host: localhost, 127.0.0.1 and
+  // [::1] on the listening port; otherwise unchecked unless set.
+  allowed_hosts?: string[];
+  allowed_origins?: string[];
+}
+
 // =============================================================================
 // MCP PROTOCOL EXTENSIONS
 // =============================================================================
@@ -371,6 +760,7 @@ export interface UniplexCapabilities {
   catalog_discovery: boolean;
   safe_default: boolean;
   request_templates: boolean;
+  methods: string[];  // uniplex/* JSON-RPC methods served by this gate
   session?: {
     passport_id?: string;
     permissions: string[];
@@ -379,6 +769,58 @@ export interface UniplexCapabilities {
   };
 }
 
+export interface UniplexCatalogResult {
+  gate_id: string;
+  version: number;
+  content_hash?: string;
+  permissions: Array<{
+    permission_key: string;
+    display_name: string;
+    description?: string;
+    risk_level: CatalogPermission['risk_level'];
+    required_constraints?: string[];
+    trust_level_required?: number;
+  }>;
+}
+
+export interface UniplexSessionResult {
+  session_id: string;
+  passport_id?: string;
+  permissions: string[];
+  constraints?: Record<string, unknown>;
+  expires_at?: string;
+}
+
+export interface UniplexPresentPassportResult {
+  session_id: string;
+  passport_id: string;
+  agent_id: string;
+  permissions: string[];
+  expires_at: string;
+}
+
+export interface UniplexRequestPassportResult {
+  status: 'pending' | 'issued' | 'denied';
+  request_id: string;
+  permissions_requested: string[];
+}
+
+export interface UniplexRequestApprovalResult {
+  status: 'pending' | 'approved' | 'denied';
+  approval_id: string;
+  permissions_requested: string[];
+  approval_url?: string;
+  expires_at?: string;
+}
+
+export interface UniplexApprovalStatusResult {
+  approval_id: string;
+  status: ApprovalStatus;
+  expires_at: string;
+  approval_token?: string;  // present once approved; replay as _meta.uniplex_approval_token
+  reason?: string;
+}
+
 export interface ServerCapabilities {
   tools?: Record<string, unknown>;
   resources?: Record<string, unknown>;
@@ -405,7 +847,7 @@ export interface UniplexToolMeta {
 }
 
 export interface UniplexDenialMeta {
-  denial_code: DenyReason;
+  denial_code: DenyCode;
   message: string;
   upgrade_template?: string;
   suggestions?: string[];
@@ -424,10 +866,167 @@ export interface Attestation {
   denial_code?: DenyReason;
   context: Record<string, unknown>;
   timestamp: string;  // RFC3339
+  approval?: AttestationApproval;  // present when the call was SUSPENDed and approved
+  catalog_version?: number;
+  catalog_content_hash?: string;
   attestation_json: string;
   signature: string;
 }
 
+/**
+ * How a SUSPENDed call was approved: in-band by the user (MCP elicitation)
+ * or out-of-band with a replayed approval token
+ */
+export interface AttestationApproval {
+  approval_id: string;
+  method: 'elicitation' | 'token';
+  decided_by?: string;
+  decided_at?: string;
+}
+
+// =============================================================================
+// APPROVALS
+// =============================================================================
+
+export type ApprovalStatus = 'pending' | 'approved' | 'denied' | 'expired' | 'consumed';
+
+/**
+ * A human approval request for a SUSPENDed call (or, via
+ * uniplex/request-approval, for a set of permissions). Once approved it
+ * yields a one-time token the agent replays with the call.
+ */
+export interface PendingApproval {
+  approval_id: string;
+  gate_id: string;
+  status: ApprovalStatus;
+  permissions: string[];
+  session_id?: string;
+  passport_id?: string;
+  agent_id?: string;
+  tool?: string;          // set when bound to a specific call
+  input_hash?: string;    // SHA-256 of the RFC 8785 canonical tool input
+  reason?: string;
+  reason_codes?: string[];
+  created_at: string;     // RFC3339
+  expires_at: string;     // RFC3339
+  decided_at?: string;
+  decided_by?: string;
+  decision_reason?: string;
+}
+
+/**
+ * Persistence for pending approvals (in-memory by default)
+ */
+export interface ApprovalStore {
+  get(approvalId: string): Promise<PendingApproval | undefined>;
+  set(approval: PendingApproval): Promise<void>;
+  delete(approvalId: string): Promise<boolean>;
+  list(): Promise<PendingApproval[]>;
+  /**
+   * Move an approval from approved to consumed in one atomic step
+   * (compare-and-set). Returns false if it was not approved, so only one
+   * of several concurrent calls can use it.
+   */
+  consume(approvalId: string): Promise<boolean>;
+}
+
+export interface ApprovalConfig {
+  store?: ApprovalStore;
+  ttl_minutes?: number;     // pending and approved lifetime, default: 15
+  approval_url?: string;    // template, "{approval_id}" is substituted
+  on_pending?: (approval: PendingApproval) => void | Promise<void>;
+  elicitation?: boolean;    // ask the user in-band (MCP elicitation) when the client supports it
+}
+
+// =============================================================================
+// HOLDER BINDING
+// =============================================================================
+
+/**
+ * Confirmation claim (RFC 7800): the agent's Ed25519 public key.
+ * A passport with cnf is only usable with a proof signed by this key.
+ */
+export interface PassportConfirmation {
+  jwk: {
+    kty: 'OKP';
+    crv: 'Ed25519';
+    x: string;  // base64url public key
+  };
+}
+
+/**
+ * Payload of a holder proof, a compact JWS signed with the cnf key and
+ * sent with each tool call as _meta.uniplex_proof
+ */
+export interface HolderProofClaims {
+  typ: 'uniplex-holder-proof';
+  aud: string;         // gate_id the proof is for
+  passport_id: string;
+  nonce: string;       // unique per call
+  tool: string;
+  input_hash: string;  // SHA-256 of the RFC 8785 canonical tool input
+  iat: number;         // Unix seconds
+}
+
+/**
+ * Remembers used proof nonces. Share one store between replicas of a gate.
+ */
+export interface NonceCache {
+  /**
+   * Record a nonce until expiresAt (ms), unless it is already recorded.
+   * Must check and record atomically. Returns false if already used.
+   */
+  add(key: string, expiresAt: number): Promise<boolean>;
+}
+
+/** A verified holder proof's nonce, to record before the call runs */
+export interface HolderNonce {
+  key: string;
+  expires_at: number;  // ms
+}
+
+export interface HolderBindingConfig {
+  proof_max_age_seconds?: number;  // default: 300
+  nonce_cache?: NonceCache;        // default: in-memory
+}
+
+// =============================================================================
+// GATE SIGNING KEYS
+// =============================================================================
+
+/**
+ * Where to load the gate's Ed25519 private key from.
+ * Key material is a 32-byte hex seed or a PKCS#8 PEM.
+ */
+export interface SigningKeyConfig {
+  private_key?: string;
+  private_key_file?: string;
+  private_key_env?: string;  // default: UNIPLEX_SIGNING_KEY
+}
+
+/**
+ * Signs gate attestations. Implement this to keep the private key in a
+ * KMS or HSM; the built-in implementation holds an Ed25519 key in memory.
+ */
+export interface GateSigner {
+  readonly kid: string;
+  sign(message: Uint8Array): Promise<Uint8Array>;
+  getPublicKey(): Promise<Uint8Array>;
+}
+
+export interface GateJwk {
+  kty: 'OKP';
+  crv: 'Ed25519';
+  x: string;  // base64url public key
+  kid: string;
+  use: 'sig';
+  alg: 'EdDSA';
+}
+
+export interface GateJwks {
+  keys: GateJwk[];
+}
+
 // =============================================================================
 // COMMERCE TYPES (Uni-Commerce Profile)
 // =============================================================================
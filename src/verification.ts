@@ -13,21 +13,35 @@
  * Cross-ref: MCP Server Spec Section 1.3 (Hot Path Rules)
  */
 
-import * as ed from '@noble/ed25519';
 import {
   Passport,
+  PassportPermission,
+  PassportJwtClaims,
+  GateSigner,
   CachedCatalog,
   CatalogVersion,
   CatalogPermission,
   VerifyResult,
   VerifyDenial,
   RequestContext,
+  IssuerKeys,
+  IssuerKeyset,
+  CacheFreshness,
+  PassportValidityConfig,
+  HolderNonce,
+  StaleCache,
   RateLimiter,
+  RateLimitStatus,
+  RateLimitWindow,
+  SpendTracker,
   CONSTRAINT_TYPES,
   DenyReason,
+  GateDenyReason,
+  type DenyCode,
   type AnonymousAccessPolicy,
   type AnonymousRateLimiter,
 } from './types.js';
+import { verifyHolderProof, HolderProofBinding, HolderProofOptions } from './holder.js';
 
 import {
   evaluateConstraints,
@@ -39,68 +53,73 @@ import {
   MemoryAnonymousRateLimiter,
 } from 'uniplex';
 
+import {
+  hexToBytes,
+  bytesToHex,
+  base64UrlDecode,
+  ed25519Verify,
+  decodeJwsHeader,
+  signJws,
+} from './signing.js';
+import { canonicalize } from './canonical.js';
+import { rateLimitsFromConstraints } from './ratelimit.js';
+
+// Rate limiters live in ratelimit.ts; re-exported for existing imports
+export {
+  InMemoryRateLimiter,
+  RATE_LIMIT_WINDOWS,
+  rateLimitsFromConstraints,
+} from './ratelimit.js';
+
 // =============================================================================
-// RATE LIMITER (LOCAL, IN-MEMORY)
+// SIGNATURE VERIFICATION
 // =============================================================================
 
-interface RateLimitBucket {
-  count: number;
-  resetAt: number;
+/**
+ * Canonical signed form of a passport (RFC 8785 JCS over the signed fields).
+ * Issuers sign exactly these bytes; claimsByKey and signature are excluded.
+ */
+export function canonicalPassportPayload(passport: Omit<Passport, 'claimsByKey'>): string {
+  return canonicalize({
+    passport_id: passport.passport_id,
+    issuer_id: passport.issuer_id,
+    agent_id: passport.agent_id,
+    gate_id: passport.gate_id,
+    audience: passport.audience,
+    permissions: passport.permissions,
+    constraints: passport.constraints,
+    expires_at: passport.expires_at,
+    issued_at: passport.issued_at,
+    catalog_version_pin: passport.catalog_version_pin,
+    kid: passport.kid,
+    not_before: passport.not_before,
+    cnf: passport.cnf,
+  });
 }
 
-export class InMemoryRateLimiter implements RateLimiter {
-  private buckets: Map<string, RateLimitBucket> = new Map();
-  private limits: Map<string, { max: number; windowMs: number }> = new Map();
-
-  setLimit(action: string, max: number, windowMs: number = 60000): void {
-    this.limits.set(action, { max, windowMs });
-  }
-
-  private getBucketKey(action: string, passportId?: string): string {
-    return passportId ? `${action}:${passportId}` : action;
-  }
-
-  check(action: string, passportId?: string): boolean {
-    const limit = this.limits.get(action);
-    if (!limit) return true; // No limit configured
-
-    const key = this.getBucketKey(action, passportId);
-    const bucket = this.buckets.get(key);
-    const now = Date.now();
-
-    if (!bucket || bucket.resetAt <= now) {
-      return true; // No bucket or expired
-    }
-
-    return bucket.count < limit.max;
-  }
-
-  increment(action: string, passportId?: string): void {
-    const limit = this.limits.get(action);
-    if (!limit) return;
-
-    const key = this.getBucketKey(action, passportId);
-    const now = Date.now();
-    let bucket = this.buckets.get(key);
-
-    if (!bucket || bucket.resetAt <= now) {
-      bucket = { count: 0, resetAt: now + limit.windowMs };
-      this.buckets.set(key, bucket);
-    }
-
-    bucket.count++;
-  }
-
-  reset(action: string, passportId?: string): void {
-    const key = this.getBucketKey(action, passportId);
-    this.buckets.delete(key);
-  }
+/**
+ * Public keys that may have signed a passport: the keyset entry matching
+ * its kid, or every usable key when it has none. Revoked keys and keys
+ * outside not_before..not_after are never returned.
+ */
+export function issuerKeyCandidates(
+  issuerKey: string | IssuerKeyset | undefined,
+  kid?: string,
+  now: number = Date.now()
+): Uint8Array[] {
+  if (issuerKey === undefined) return [];
+  if (typeof issuerKey === 'string') return [hexToBytes(issuerKey)];
+
+  return issuerKey.keys
+    .filter(key =>
+      key.kty === 'OKP' && key.crv === 'Ed25519'
+      && key.status !== 'revoked'
+      && (kid === undefined || key.kid === kid)
+      && (key.not_before === undefined || Date.parse(key.not_before) <= now)
+      && (key.not_after === undefined || now <= Date.parse(key.not_after)))
+    .map(key => base64UrlDecode(key.x));
 }
 
-// =============================================================================
-// SIGNATURE VERIFICATION
-// =============================================================================
-
 /**
  * Verify passport signature using issuer's Ed25519 public key
  *
@@ -108,30 +127,20 @@ export class InMemoryRateLimiter implements RateLimiter {
  * Gates NEVER use their own keys for passport verification.
  */
 export async function verifySignature(
-  passport: Passport,
-  issuerPublicKey: string
+  passport: Omit<Passport, 'claimsByKey'>,
+  issuerPublicKey: string | IssuerKeyset,
+  now: number = Date.now()
 ): Promise<boolean> {
   try {
-    const signedPayload = {
-      passport_id: passport.passport_id,
-      issuer_id: passport.issuer_id,
-      agent_id: passport.agent_id,
-      gate_id: passport.gate_id,
-      permissions: passport.permissions,
-      constraints: passport.constraints,
-      expires_at: passport.expires_at,
-      issued_at: passport.issued_at,
-      catalog_version_pin: passport.catalog_version_pin,
-    };
-
-    // Remove undefined fields for canonical form
-    const canonicalPayload = JSON.stringify(signedPayload, (_, v) => v === undefined ? undefined : v);
+    if (passport.jws !== undefined) {
+      return verifyPassportJws(passport.jws, issuerPublicKey, passport.kid, now);
+    }
 
-    const message = new TextEncoder().encode(canonicalPayload);
+    const message = new TextEncoder().encode(canonicalPassportPayload(passport));
     const signature = hexToBytes(passport.signature);
-    const publicKey = hexToBytes(issuerPublicKey);
 
-    return await ed.verifyAsync(signature, message, publicKey);
+    return issuerKeyCandidates(issuerPublicKey, passport.kid, now)
+      .some(publicKey => ed25519Verify(signature, message, publicKey));
   } catch (error) {
     console.error('Signature verification error:', error);
     return false;
@@ -140,44 +149,151 @@ export async function verifySignature(
 
 /**
  * Synchronous signature verification for hot path
- * Uses cached key material
+ * Uses cached key material; passport.kid selects the key from a keyset
  */
 export function verifySignatureSync(
-  passport: Passport,
-  issuerPublicKey: string
+  passport: Omit<Passport, 'claimsByKey'>,
+  issuerPublicKey: string | IssuerKeyset,
+  now: number = Date.now()
 ): boolean {
   try {
-    const signedPayload = {
-      passport_id: passport.passport_id,
-      issuer_id: passport.issuer_id,
-      agent_id: passport.agent_id,
-      gate_id: passport.gate_id,
-      permissions: passport.permissions,
-      constraints: passport.constraints,
-      expires_at: passport.expires_at,
-      issued_at: passport.issued_at,
-      catalog_version_pin: passport.catalog_version_pin,
-    };
+    if (passport.jws !== undefined) {
+      return verifyPassportJws(passport.jws, issuerPublicKey, passport.kid, now);
+    }
 
-    const canonicalPayload = JSON.stringify(signedPayload, (_, v) => v === undefined ? undefined : v);
-    const message = new TextEncoder().encode(canonicalPayload);
+    const message = new TextEncoder().encode(canonicalPassportPayload(passport));
     const signature = hexToBytes(passport.signature);
-    const publicKey = hexToBytes(issuerPublicKey);
 
-    // ed.verify is synchronous
-    return ed.verify(signature, message, publicKey);
+    return issuerKeyCandidates(issuerPublicKey, passport.kid, now)
+      .some(publicKey => ed25519Verify(signature, message, publicKey));
   } catch (error) {
     return false;
   }
 }
 
-function hexToBytes(hex: string): Uint8Array {
-  const cleanHex = hex.startsWith('0x') ? hex.slice(2) : hex;
-  const bytes = new Uint8Array(cleanHex.length / 2);
-  for (let i = 0; i < bytes.length; i++) {
-    bytes[i] = parseInt(cleanHex.slice(i * 2, i * 2 + 2), 16);
+// =============================================================================
+// JWS PASSPORTS
+// =============================================================================
+
+/**
+ * Decode a passport issued as an EdDSA-signed compact JWS (JWT).
+ * Claims map onto Passport: jti → passport_id, iss → issuer_id,
+ * sub → agent_id, aud → gate_id (further entries → audience),
+ * exp/iat/nbf → expires_at/issued_at/not_before.
+ * The signature is NOT checked here; verifySignatureSync checks it against
+ * the issuer keys.
+ *
+ * @throws Error if the JWS or its claims are malformed
+ */
+export function decodePassportJws(jws: string): Omit<Passport, 'claimsByKey'> {
+  const parts = jws.split('.');
+  if (parts.length !== 3 || !parts[1] || !parts[2]) {
+    throw new Error('Passport JWS must be a compact JWS with an attached payload');
+  }
+
+  const header = decodeJwsHeader(jws);
+  if (header.alg !== 'EdDSA') {
+    throw new Error(`Unsupported passport JWS algorithm: ${header.alg}`);
+  }
+  // No header extensions are understood, so any crit entry is unsupported (RFC 7515 §4.1.11)
+  if (header.crit !== undefined) {
+    throw new Error(`Unsupported critical header parameters: ${JSON.stringify(header.crit)}`);
+  }
+
+  const claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8')) as Partial<PassportJwtClaims>;
+  const audience = typeof claims.aud === 'string' ? [claims.aud] : claims.aud;
+
+  for (const claim of ['jti', 'iss', 'sub'] as const) {
+    if (typeof claims[claim] !== 'string') throw new Error(`Passport JWS is missing the ${claim} claim`);
+  }
+  if (!Array.isArray(audience) || !audience.length || !audience.every(aud => typeof aud === 'string')) {
+    throw new Error('Passport JWS aud must name at least one gate');
+  }
+  for (const claim of ['exp', 'iat'] as const) {
+    if (typeof claims[claim] !== 'number') throw new Error(`Passport JWS is missing the ${claim} claim`);
+  }
+  if (claims.nbf !== undefined && typeof claims.nbf !== 'number') {
+    throw new Error('Passport JWS nbf must be a number');
   }
-  return bytes;
+  if (!Array.isArray(claims.permissions)) {
+    throw new Error('Passport JWS is missing the permissions claim');
+  }
+
+  return {
+    passport_id: claims.jti!,
+    issuer_id: claims.iss!,
+    agent_id: claims.sub!,
+    gate_id: audience[0],
+    ...(audience.length > 1 && { audience: audience.slice(1) }),
+    permissions: claims.permissions,
+    constraints: claims.constraints ?? {},
+    signature: bytesToHex(base64UrlDecode(parts[2])),
+    ...(header.kid !== undefined && { kid: header.kid }),
+    expires_at: fromNumericDate(claims.exp!),
+    issued_at: fromNumericDate(claims.iat!),
+    ...(claims.nbf !== undefined && { not_before: fromNumericDate(claims.nbf) }),
+    ...(claims.catalog_version_pin && { catalog_version_pin: claims.catalog_version_pin }),
+    ...(claims.cnf && { cnf: claims.cnf }),
+    jws,
+  };
+}
+
+/**
+ * Encode a passport as an EdDSA-signed compact JWS (JWT), kid = signer.kid.
+ * Timestamps are truncated to whole seconds.
+ */
+export async function encodePassportAsJws(
+  passport: Omit<Passport, 'claimsByKey' | 'signature' | 'jws'>,
+  signer: GateSigner
+): Promise<string> {
+  const claims: PassportJwtClaims = {
+    jti: passport.passport_id,
+    iss: passport.issuer_id,
+    sub: passport.agent_id,
+    aud: passport.audience?.length ? [passport.gate_id, ...passport.audience] : passport.gate_id,
+    exp: toNumericDate(passport.expires_at),
+    iat: toNumericDate(passport.issued_at),
+    ...(passport.not_before !== undefined && { nbf: toNumericDate(passport.not_before) }),
+    permissions: passport.permissions,
+    constraints: passport.constraints,
+    ...(passport.catalog_version_pin && { catalog_version_pin: passport.catalog_version_pin }),
+    ...(passport.cnf && { cnf: passport.cnf }),
+  };
+
+  return signJws(canonicalize(claims), signer);
+}
+
+function verifyPassportJws(
+  jws: string,
+  issuerPublicKey: string | IssuerKeyset,
+  kid?: string,
+  now: number = Date.now()
+): boolean {
+  const [header, payload, signature] = jws.split('.');
+  const message = new TextEncoder().encode(`${header}.${payload}`);
+  const signatureBytes = base64UrlDecode(signature);
+
+  return issuerKeyCandidates(issuerPublicKey, kid, now)
+    .some(publicKey => ed25519Verify(signatureBytes, message, publicKey));
+}
+
+function toNumericDate(timestamp: string): number {
+  return Math.floor(Date.parse(timestamp) / 1000);
+}
+
+function fromNumericDate(seconds: number): string {
+  return new Date(seconds * 1000).toISOString();
+}
+
+// =============================================================================
+// REQUIRED CONSTRAINTS
+// =============================================================================
+
+/**
+ * Required constraint keys with no value in the request context
+ */
+function findMissingConstraints(required: string[], context: RequestContext): string[] {
+  return Array.from(new Set(required)).filter(key => context[key] === undefined || context[key] === null);
 }
 
 // =============================================================================
@@ -301,7 +417,7 @@ function resolveCatalogVersion(
 // =============================================================================
 
 function deny(
-  code: DenyReason,
+  code: DenyCode,
   message: string,
   extras?: {
     upgrade_template?: string;
@@ -325,20 +441,205 @@ function deny(
   };
 }
 
+// =============================================================================
+// PASSPORT CREDENTIAL CHECKS (Steps 2-4)
+// =============================================================================
+
+interface CredentialCheckParams {
+  issuerKeys: IssuerKeys;
+  revocationList: Set<string>;
+  issuerTrust?: Record<string, number>;
+  skipSignatureVerification?: boolean;
+  validity?: PassportValidityConfig;
+  now?: number;
+}
+
+/**
+ * Issuer trust, issuer key + signature, expiration and revocation checks.
+ * Shared by verifyLocally (hot path) and validatePassport (presentation).
+ *
+ * @returns a deny result, or null when the passport's credentials are valid
+ */
+function checkPassportCredentials(
+  passport: Omit<Passport, 'claimsByKey'>,
+  params: CredentialCheckParams,
+): VerifyResult | null {
+  const { issuerKeys, revocationList, issuerTrust, skipSignatureVerification, validity } = params;
+  const now = params.now ?? Date.now();
+
+  // Step 2a: Check issuer is trusted by this gate (trusted_issuers or a
+  // trust network). Having a cached key is NOT sufficient for trust.
+  if (issuerTrust && issuerTrust[passport.issuer_id] === undefined) {
+    return deny(DenyReason.ISSUER_NOT_ALLOWED, `Issuer not trusted: ${passport.issuer_id}`, {
+      constraint_decision: 'BLOCK',
+    });
+  }
+
+  // Step 2b: Verify signature using ISSUER's public key
+  // Passports are signed by issuers; gate verifies using cached issuer keys
+  const issuerKey = issuerKeys[passport.issuer_id];
+  if (!issuerKey) {
+    return deny(DenyReason.ISSUER_NOT_ALLOWED, `Unknown issuer: ${passport.issuer_id}`, {
+      constraint_decision: 'BLOCK',
+    });
+  }
+
+  // A kid the issuer no longer (or not yet) vouches for
+  if (!skipSignatureVerification && passport.kid !== undefined
+      && issuerKeyCandidates(issuerKey, passport.kid, now).length === 0) {
+    return deny(DenyReason.INVALID_SIGNATURE, `No valid key ${passport.kid} for issuer ${passport.issuer_id}`, {
+      constraint_decision: 'BLOCK',
+    });
+  }
+
+  // Skip signature verification in test mode
+  if (!skipSignatureVerification && !verifySignatureSync(passport, issuerKey, now)) {
+    return deny(DenyReason.INVALID_SIGNATURE, 'Passport signature invalid', {
+      constraint_decision: 'BLOCK',
+    });
+  }
+
+  // Step 3: Check validity window (timezone-safe: timestamps are RFC3339)
+  const timeDenial = checkPassportTimes(passport, now, validity);
+  if (timeDenial) {
+    return timeDenial;
+  }
+
+  // Step 4: Check revocation (cached revocation list)
+  if (revocationList.has(passport.passport_id)) {
+    return deny(DenyReason.PASSPORT_REVOKED, 'Passport has been revoked', {
+      constraint_decision: 'BLOCK',
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Expiry, not_before and issued_at checks, each allowing
+ * validity.clock_skew_seconds of drift, plus the gate's max lifetime
+ */
+function checkPassportTimes(
+  passport: Omit<Passport, 'claimsByKey'>,
+  now: number,
+  validity: PassportValidityConfig = {},
+): VerifyResult | null {
+  const skewMs = (validity.clock_skew_seconds ?? 0) * 1000;
+  const expiresAt = Date.parse(passport.expires_at);
+  const issuedAt = Date.parse(passport.issued_at);
+
+  if (!(expiresAt >= now - skewMs)) {
+    return deny(DenyReason.PASSPORT_EXPIRED, 'Passport has expired', {
+      constraint_decision: 'BLOCK',
+    });
+  }
+
+  if (passport.not_before !== undefined && !(Date.parse(passport.not_before) <= now + skewMs)) {
+    return deny(GateDenyReason.PASSPORT_NOT_YET_VALID, `Passport is not valid before ${passport.not_before}`, {
+      constraint_decision: 'BLOCK',
+    });
+  }
+
+  if (!(issuedAt <= now + skewMs)) {
+    return deny(GateDenyReason.PASSPORT_NOT_YET_VALID, `Passport issued_at ${passport.issued_at} is in the future`, {
+      constraint_decision: 'BLOCK',
+    });
+  }
+
+  if (validity.max_lifetime_minutes !== undefined
+      && expiresAt - issuedAt > validity.max_lifetime_minutes * 60_000) {
+    return deny(
+      GateDenyReason.PASSPORT_LIFETIME_EXCEEDED,
+      `Passport lifetime exceeds this gate's maximum of ${validity.max_lifetime_minutes} minutes`,
+      { constraint_decision: 'BLOCK' },
+    );
+  }
+
+  return null;
+}
+
+/** Audience entry naming every gate in a trust network */
+export const TRUST_NETWORK_AUDIENCE_PREFIX = 'trust_network:';
+
+/**
+ * Deny a passport minted for none of the audiences this gate accepts
+ * (its gate_id, other gate_ids it answers for, `trust_network:<id>`).
+ */
+function checkAudience(
+  passport: Omit<Passport, 'claimsByKey'>,
+  audiences: string[],
+): VerifyResult | null {
+  const passportAudiences = [passport.gate_id, ...(passport.audience ?? [])];
+  if (passportAudiences.some(audience => audiences.includes(audience))) {
+    return null;
+  }
+
+  return deny(
+    GateDenyReason.AUDIENCE_MISMATCH,
+    `Passport was issued for ${passportAudiences.join(', ')}, not ${audiences[0]}`,
+    { constraint_decision: 'BLOCK' },
+  );
+}
+
 // =============================================================================
 // VERIFY LOCALLY — THE HOT PATH
 // =============================================================================
 
+export interface HolderProofParams extends Omit<HolderProofBinding, 'passport_id'>, Omit<HolderProofOptions, 'now'> {
+  proof?: string;
+}
+
 export interface VerifyLocallyParams {
   passport: Passport | null;
   catalog: CachedCatalog;
   revocationList: Set<string>;
-  issuerKeys: Record<string, string>;
-  rateLimiter: RateLimiter;
+  issuerKeys: IssuerKeys;
+  /**
+   * Local counters for Step 9. Omitted when a SharedRateLimiter enforces
+   * rate limits after verification instead.
+   */
+  rateLimiter?: RateLimiter;
   action: string;
   context: RequestContext;
+  /**
+   * Constraint keys the tool requires in the request context
+   * (ToolDefinition.required_constraints); merged with the catalog's.
+   */
+  requiredConstraints?: string[];
+  /**
+   * Trusted issuer → trust level, from trusted_issuers and trust networks.
+   * When provided, passports from issuers not listed are denied.
+   */
+  issuerTrust?: Record<string, number>;
+  /**
+   * Cache freshness for this action. A stale revocation list denies
+   * fail_closed actions; otherwise stale caches make the result non-confident.
+   */
+  cacheFreshness?: CacheFreshness;
+  /**
+   * A verified one-time human approval covers this call: a SUSPEND
+   * decision proceeds, BLOCK still denies.
+   */
+  approvalGranted?: boolean;
+  /** Cumulative spend totals for core:cost:max_cumulative */
+  spendTracker?: SpendTracker;
   /** Skip signature verification (for testing only) */
   skipSignatureVerification?: boolean;
+  /** Clock skew leeway and max lifetime for passport time checks */
+  validity?: PassportValidityConfig;
+  /** Current time in ms (default Date.now()); injectable for tests */
+  now?: number;
+  /**
+   * Audiences this gate accepts, its own gate_id first. When provided,
+   * passports minted for other gates are denied with AUDIENCE_MISMATCH.
+   */
+  audiences?: string[];
+  /**
+   * The call's proof of possession (_meta.uniplex_proof). When given and
+   * the passport has a cnf key, a valid proof is required; a permit then
+   * carries holder_nonce, which the caller must record before running it.
+   */
+  holderProof?: HolderProofParams;
   /** Anonymous access policy (§14A) */
   anonymousPolicy?: AnonymousAccessPolicy;
   /** Anonymous rate limiter */
@@ -375,7 +676,16 @@ export function verifyLocally(params: VerifyLocallyParams): VerifyResult {
     rateLimiter,
     action,
     context,
+    requiredConstraints,
+    issuerTrust,
+    cacheFreshness,
+    approvalGranted,
+    spendTracker,
     skipSignatureVerification,
+    validity,
+    now,
+    audiences,
+    holderProof,
     anonymousPolicy,
     anonymousRateLimiter,
     sourceId,
@@ -417,43 +727,53 @@ export function verifyLocally(params: VerifyLocallyParams): VerifyResult {
   }
 
   // =======================================================================
-  // Step 2: Verify signature using ISSUER's public key
-  // Passports are signed by issuers; gate verifies using cached issuer keys
+  // Steps 2-4: Issuer trust, issuer key + signature, expiration, revocation
+  // Anti-downgrade: any failure here → deny (NEVER fall to anon)
   // =======================================================================
-  const issuerKey = issuerKeys[passport.issuer_id];
-  if (!issuerKey) {
-    // Anti-downgrade: unknown issuer with a passport → deny (NEVER fall to anon)
-    return deny(DenyReason.ISSUER_NOT_ALLOWED, `Unknown issuer: ${passport.issuer_id}`, {
-      constraint_decision: 'BLOCK',
-    });
+  const credentialDenial = checkPassportCredentials(passport, {
+    issuerKeys,
+    revocationList,
+    issuerTrust,
+    skipSignatureVerification,
+    validity,
+    now,
+  });
+  if (credentialDenial) {
+    return credentialDenial;
   }
 
-  // Skip signature verification in test mode
-  if (!skipSignatureVerification && !verifySignatureSync(passport, issuerKey)) {
-    // Anti-downgrade: invalid signature → deny (NEVER fall to anon)
-    return deny(DenyReason.INVALID_SIGNATURE, 'Passport signature invalid', {
-      constraint_decision: 'BLOCK',
-    });
+  // Audience binding: gate_id is signed, so a passport for another gate
+  // must not work here just because its issuer is trusted here too
+  const audienceDenial = audiences && checkAudience(passport, audiences);
+  if (audienceDenial) {
+    return audienceDenial;
   }
 
-  // =======================================================================
-  // Step 3: Check expiration (timezone-safe: expires_at is RFC3339)
-  // Anti-downgrade: expired passport → deny (NEVER fall to anon)
-  // =======================================================================
-  if (new Date(passport.expires_at) < new Date()) {
-    return deny(DenyReason.PASSPORT_EXPIRED, 'Passport has expired', {
-      constraint_decision: 'BLOCK',
+  // Holder binding: a cnf-bound passport only works with its agent's key
+  let holderNonce: HolderNonce | undefined;
+  if (holderProof && passport.cnf) {
+    const { proof, gate_id, tool, input, ...options } = holderProof;
+    const binding = { gate_id, passport_id: passport.passport_id, tool, input };
+    const check = verifyHolderProof(proof, passport.cnf, binding, {
+      clockSkewSeconds: validity?.clock_skew_seconds,
+      now,
+      ...options,
     });
+    if (!check.valid) {
+      return deny(GateDenyReason.HOLDER_PROOF_INVALID, check.reason, {
+        constraint_decision: 'BLOCK',
+      });
+    }
+    holderNonce = check.nonce;
   }
 
-  // =======================================================================
-  // Step 4: Check revocation (cached revocation list)
-  // Anti-downgrade: revoked passport → deny (NEVER fall to anon)
-  // =======================================================================
-  if (revocationList.has(passport.passport_id)) {
-    return deny(DenyReason.PASSPORT_REVOKED, 'Passport has been revoked', {
-      constraint_decision: 'BLOCK',
-    });
+  // fail_closed: revocation status can't be confirmed from a stale list
+  if (cacheFreshness && !cacheFreshness.revocationFresh && cacheFreshness.failMode === 'fail_closed') {
+    return deny(
+      GateDenyReason.REVOCATION_LIST_STALE,
+      `Revocation list is stale and ${action} is fail_closed`,
+      { constraint_decision: 'BLOCK' },
+    );
   }
 
   // =======================================================================
@@ -478,11 +798,26 @@ export function verifyLocally(params: VerifyLocallyParams): VerifyResult {
     });
   }
 
+  // Per-permission issuer trust requirement (e.g. high-risk tools only
+  // accept passports from stronger issuers)
+  if (issuerTrust && catalogEntry.trust_level_required !== undefined) {
+    const trustLevel = issuerTrust[passport.issuer_id] ?? 0;
+    if (trustLevel < catalogEntry.trust_level_required) {
+      return deny(
+        DenyReason.ISSUER_NOT_ALLOWED,
+        `${action} requires issuer trust level ${catalogEntry.trust_level_required}, ` +
+          `${passport.issuer_id} has ${trustLevel}`,
+        { constraint_decision: 'BLOCK' },
+      );
+    }
+  }
+
   // =======================================================================
   // Step 7: Check permission exists in PASSPORT
-  // O(1) lookup using claimsByKey built at passport load time
+  // O(1) exact lookup, then O(depth) wildcard lookup, using the indexes
+  // built at passport load time
   // =======================================================================
-  const passportPermission = passport.claimsByKey[action];
+  const passportPermission = resolvePermission(passport, action);
   if (!passportPermission) {
     return deny(DenyReason.PERMISSION_DENIED, `Passport lacks ${action} permission`, {
       upgrade_template: catalogEntry.default_template,
@@ -504,14 +839,33 @@ export function verifyLocally(params: VerifyLocallyParams): VerifyResult {
     passportPermission.constraints,
   );
 
+  // Required constraints must have a value: a failed extraction
+  // (e.g. a missing $.price) must not skip the check it feeds
+  const missing = findMissingConstraints(
+    [...(catalogEntry.required_constraints ?? []), ...(requiredConstraints ?? [])],
+    context,
+  );
+  if (missing.length > 0) {
+    return deny(
+      DenyReason.CONSTRAINT_VIOLATED,
+      `Missing required constraint values: ${missing.join(', ')}`,
+      { constraint_decision: 'BLOCK', reason_codes: ['missing_context'] },
+    );
+  }
+
+  const costCents = typeof context['amount_canonical'] === 'number'
+    ? context['amount_canonical']
+    : undefined;
+  const cumulativeSpentCents = spendTracker?.getSpent(passport.passport_id, action);
+
   // Use protocol SDK's evaluateConstraints for full CEL evaluation
   const celResult: CELResult = evaluateConstraints({
     constraints: effectiveConstraints,
     action,
-    costCents: typeof context['amount_canonical'] === 'number'
-      ? context['amount_canonical']
-      : undefined,
-    metadata: context,
+    costCents,
+    metadata: cumulativeSpentCents === undefined
+      ? context
+      : { ...context, cumulative_spent_cents: cumulativeSpentCents },
   });
 
   if (celResult.decision === 'BLOCK') {
@@ -524,18 +878,40 @@ export function verifyLocally(params: VerifyLocallyParams): VerifyResult {
     );
   }
 
-  if (celResult.decision === 'SUSPEND') {
-    return deny(
-      DenyReason.APPROVAL_REQUIRED,
-      'Action requires approval before proceeding',
-      {
-        constraint_decision: 'SUSPEND',
-        reason_codes: celResult.reason_codes ?? ['approval_required'],
-        obligations: celResult.obligations.length > 0
-          ? celResult.obligations
-          : [OBLIGATION_TOKENS.REQUIRE_APPROVAL],
-      },
+  // Cumulative budgets: per permission from the effective constraints,
+  // across all permissions from the passport-level constraints
+  if (spendTracker) {
+    const exceeded = findExceededBudget(
+      spendTracker,
+      passport,
+      action,
+      effectiveConstraints,
+      costCents ?? 0,
     );
+    if (exceeded) {
+      return deny(DenyReason.CONSTRAINT_VIOLATED, exceeded, {
+        constraint_decision: 'BLOCK',
+        reason_codes: ['cumulative_cost_exceeded'],
+      });
+    }
+  }
+
+  if (celResult.decision === 'SUSPEND' && !approvalGranted) {
+    // Effective constraints are shown to the approver
+    return {
+      ...deny(
+        DenyReason.APPROVAL_REQUIRED,
+        'Action requires approval before proceeding',
+        {
+          constraint_decision: 'SUSPEND',
+          reason_codes: celResult.reason_codes ?? ['approval_required'],
+          obligations: celResult.obligations.length > 0
+            ? celResult.obligations
+            : [OBLIGATION_TOKENS.REQUIRE_APPROVAL],
+        },
+      ),
+      effective_constraints: effectiveConstraints,
+    };
   }
 
   // Also run legacy constraint validation for backward compat with custom keys
@@ -554,21 +930,145 @@ export function verifyLocally(params: VerifyLocallyParams): VerifyResult {
 
   // =======================================================================
   // Step 9: Check rate limits (local counters)
+  //
+  // Windows come from the merged catalog + passport constraints, so each
+  // passport gets its own limits on the same action. Check and count in
+  // one step so concurrent calls can't both pass.
   // =======================================================================
-  if (!rateLimiter.check(action, passport.passport_id)) {
-    return deny(DenyReason.RATE_LIMITED, 'Rate limit exceeded', {
-      constraint_decision: 'BLOCK',
-    });
+  const rateLimits = rateLimitsFromConstraints(effectiveConstraints);
+  if (rateLimiter && !consumeRateLimit(rateLimiter, action, passport.passport_id, rateLimits)) {
+    return rateLimited(rateLimiter.status?.(action, passport.passport_id, rateLimits));
   }
+  const rateLimit = rateLimiter?.status?.(action, passport.passport_id, rateLimits);
 
-  // All checks passed — increment rate limit counter and return success
-  rateLimiter.increment(action, passport.passport_id);
+  // fail_open: permit, but flag decisions made on stale caches
+  const staleCaches = findStaleCaches(cacheFreshness);
 
   return {
     allowed: true,
     decision: 'permit',
     constraint_decision: 'PERMIT',
     effective_constraints: effectiveConstraints,
+    confident: staleCaches.length === 0,
+    ...(staleCaches.length > 0 && { stale_caches: staleCaches }),
+    ...(rateLimit && { rate_limit: rateLimit }),
+    catalog_version: effectiveCatalog.version,
+    ...(effectiveCatalog.content_hash && { catalog_content_hash: effectiveCatalog.content_hash }),
+    ...(holderNonce && { holder_nonce: holderNonce }),
+  };
+}
+
+/**
+ * RATE_LIMITED denial carrying Retry-After and the exhausted quota
+ */
+export function rateLimited(status?: RateLimitStatus, message = 'Rate limit exceeded'): VerifyResult {
+  const result = deny(DenyReason.RATE_LIMITED, message, { constraint_decision: 'BLOCK' });
+  if (status) {
+    result.denial!.retry_after_seconds = status.retry_after_seconds;
+    result.denial!.rate_limit = status;
+    result.rate_limit = status;
+  }
+  return result;
+}
+
+/**
+ * Count a call against its rate limits if every window has room. Falls
+ * back to check() + increment() for limiters without tryConsume(); both
+ * run synchronously, so no other call can slip in between.
+ */
+function consumeRateLimit(
+  rateLimiter: RateLimiter,
+  action: string,
+  passportId: string,
+  limits: RateLimitWindow[],
+): boolean {
+  if (rateLimiter.tryConsume) {
+    return rateLimiter.tryConsume(action, passportId, limits);
+  }
+  if (!rateLimiter.check(action, passportId, limits)) return false;
+  rateLimiter.increment(action, passportId, limits);
+  return true;
+}
+
+/**
+ * Message for the first core:cost:max_cumulative budget this call would
+ * exceed, if any
+ */
+function findExceededBudget(
+  spendTracker: SpendTracker,
+  passport: Passport,
+  action: string,
+  effectiveConstraints: Record<string, unknown>,
+  costCents: number,
+): string | undefined {
+  const budgets: Array<[unknown, number, string]> = [
+    [effectiveConstraints[CONSTRAINT_KEYS.MAX_CUMULATIVE], spendTracker.getSpent(passport.passport_id, action), action],
+    [passport.constraints?.[CONSTRAINT_KEYS.MAX_CUMULATIVE], spendTracker.getSpent(passport.passport_id), 'passport'],
+  ];
+
+  for (const [max, spent, scope] of budgets) {
+    if (typeof max === 'number' && spent + costCents > max) {
+      return `Cumulative spend limit exceeded for ${scope}: ${spent} spent, ${costCents} requested, limit ${max}`;
+    }
+  }
+  return undefined;
+}
+
+function findStaleCaches(freshness?: CacheFreshness): StaleCache[] {
+  if (!freshness) return [];
+  const stale: StaleCache[] = [];
+  if (!freshness.catalogFresh) stale.push('catalog');
+  if (!freshness.revocationFresh) stale.push('revocation_list');
+  return stale;
+}
+
+// =============================================================================
+// PASSPORT PRESENTATION
+// =============================================================================
+
+export interface ValidatePassportParams {
+  passport: Omit<Passport, 'claimsByKey'>;
+  issuerKeys: IssuerKeys;
+  revocationList: Set<string>;
+  /** The gate the passport is being presented to */
+  gateId: string;
+  /** Trusted issuer → trust level; when provided, other issuers are denied */
+  issuerTrust?: Record<string, number>;
+  /** Skip signature verification (for testing only) */
+  skipSignatureVerification?: boolean;
+  /** Clock skew leeway and max lifetime for passport time checks */
+  validity?: PassportValidityConfig;
+  /** Current time in ms (default Date.now()); injectable for tests */
+  now?: number;
+  /** Audiences this gate accepts (default: [gateId]) */
+  audiences?: string[];
+  /** Accept passports minted for any gate (multi-gate deployments) */
+  skipAudienceCheck?: boolean;
+}
+
+/**
+ * Validate a passport presented by an agent before binding it to a session.
+ *
+ * Runs the credential checks of verifyLocally (issuer trust, signature,
+ * validity window, revocation) and rejects passports minted for a different gate.
+ * Permission and constraint checks still happen per call in verifyLocally.
+ */
+export function validatePassport(params: ValidatePassportParams): VerifyResult {
+  const { passport, gateId, audiences, skipAudienceCheck, ...credentialParams } = params;
+
+  const credentialDenial = checkPassportCredentials(passport, credentialParams);
+  if (credentialDenial) {
+    return credentialDenial;
+  }
+
+  const audienceDenial = !skipAudienceCheck && checkAudience(passport, audiences ?? [gateId]);
+  if (audienceDenial) {
+    return audienceDenial;
+  }
+
+  return {
+    allowed: true,
+    decision: 'permit',
     confident: true,
   };
 }
@@ -578,28 +1078,69 @@ export function verifyLocally(params: VerifyLocallyParams): VerifyResult {
 // =============================================================================
 
 /**
- * Build claimsByKey index for O(1) permission lookup
+ * Build claimsByKey and wildcardClaims indexes for permission lookup
  * MUST be called when loading a passport
+ *
+ * Wildcard grants are indexed by prefix: 'flights:*' → 'flights:',
+ * '*' → ''. They also stay in claimsByKey under their literal key.
  */
 export function buildPassportIndex(passport: Omit<Passport, 'claimsByKey'>): Passport {
-  const claimsByKey: Record<string, Passport['permissions'][0]> = {};
+  const claimsByKey: Record<string, PassportPermission> = {};
+  const wildcardClaims: Record<string, PassportPermission> = {};
 
   for (const permission of passport.permissions) {
-    claimsByKey[permission.permission_key] = permission;
+    const key = permission.permission_key;
+    claimsByKey[key] = permission;
+
+    if (key === '*') {
+      wildcardClaims[''] = permission;
+    } else if (key.endsWith(':*')) {
+      wildcardClaims[key.slice(0, -1)] = permission;
+    }
   }
 
   return {
     ...passport,
     claimsByKey,
+    wildcardClaims,
   };
 }
 
+/**
+ * Resolve the passport grant that covers an action.
+ *
+ * Wildcards are hierarchical: 'flights:*' covers 'flights:search' and
+ * 'flights:booking:create'. Precedence is deterministic — the most specific
+ * grant wins and only its constraints apply (grants are not merged):
+ *   exact key > 'flights:booking:*' > 'flights:*' > '*'
+ */
+export function resolvePermission(
+  passport: Passport,
+  action: string
+): PassportPermission | undefined {
+  const exact = passport.claimsByKey[action];
+  if (exact) return exact;
+
+  const wildcards = passport.wildcardClaims;
+  if (!wildcards) return undefined;
+
+  // Walk prefixes from most to least specific: 'a:b:c' → 'a:b:', 'a:', ''
+  let end = action.lastIndexOf(':');
+  while (end !== -1) {
+    const claim = wildcards[action.slice(0, end + 1)];
+    if (claim) return claim;
+    end = end > 0 ? action.lastIndexOf(':', end - 1) : -1;
+  }
+
+  return wildcards[''];
+}
+
 /**
  * Check if a passport has a specific permission (without full verification)
  */
 export function hasPermission(passport: Passport | null, action: string): boolean {
   if (!passport) return false;
-  return action in passport.claimsByKey;
+  return resolvePermission(passport, action) !== undefined;
 }
 
 /**
@@ -610,5 +1151,5 @@ export function getPermissionConstraints(
   action: string
 ): Record<string, unknown> | undefined {
   if (!passport) return undefined;
-  return passport.claimsByKey[action]?.constraints;
+  return resolvePermission(passport, action)?.constraints;
 }